@@ -0,0 +1,150 @@
+/**
+ * Property-based tests for ElysiaServer - Property 12: Error Mapping
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import { PROBLEM_CONTENT_TYPE } from '../errors';
+import type { ErrorMapper, ProblemDetails } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 12: Error Mapping
+ *
+ * For any error thrown during request handling:
+ * - Without an errorMapper, the response SHALL be `application/problem+json` with
+ *   type, title, status, detail, instance and requestId
+ * - With an errorMapper, its status, body and headers SHALL be sent
+ * - If the errorMapper returns undefined or throws, the default response SHALL be sent
+ */
+describe('Property 12: Error Mapping', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const pathArb = fc
+    .array(fc.stringMatching(/^[a-z][a-z0-9_-]{0,9}$/), { minLength: 1, maxLength: 3 })
+    .map((segments) => '/' + segments.join('/'));
+
+  const statusArb = fc.constantFrom(400, 401, 403, 404, 409, 422, 429, 500, 502, 503);
+
+  const requestIdArb = fc.stringMatching(/^[a-zA-Z0-9-]{8,36}$/);
+
+  const createFailingRoute = (path: string, status: number, message: string) =>
+    ({
+      path,
+      method: 'GET' as const,
+      handler: async () => {
+        const error = new Error(message) as Error & { status: number };
+        error.status = status;
+        throw error;
+      },
+      responseType: 'json' as const,
+    }) as unknown as ServerRoute;
+
+  test('default errors are problem details for any status', async () => {
+    await fc.assert(
+      fc.asyncProperty(pathArb, statusArb, requestIdArb, async (path, status, requestId) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({ app, mastra: createMockMastra() });
+        server.registerContextMiddleware();
+
+        await server.registerRoute(app, createFailingRoute(path, status, 'Something broke'), {});
+
+        const response = await app.handle(
+          new Request(`http://localhost${path}`, { headers: { 'X-Request-Id': requestId } })
+        );
+
+        expect(response.status).toBe(status);
+        expect(response.headers.get('Content-Type')).toBe(PROBLEM_CONTENT_TYPE);
+
+        const body = (await response.json()) as ProblemDetails;
+        expect(typeof body.type).toBe('string');
+        expect(typeof body.title).toBe('string');
+        expect(body.status).toBe(status);
+        expect(typeof body.detail).toBe('string');
+        expect(body.instance).toBe(path);
+        expect(body.requestId).toBe(requestId);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('custom errorMapper receives the error and route and controls the response', async () => {
+    await fc.assert(
+      fc.asyncProperty(pathArb, statusArb, statusArb, async (path, thrownStatus, mappedStatus) => {
+        const app = new Elysia();
+        const route = createFailingRoute(path, thrownStatus, 'Mapped failure');
+
+        let receivedError: unknown;
+        let receivedRoute: ServerRoute | undefined;
+        const errorMapper: ErrorMapper = (error, mappedRoute) => {
+          receivedError = error;
+          receivedRoute = mappedRoute;
+          return {
+            status: mappedStatus,
+            body: { code: 'CUSTOM', original: (error as { status: number }).status },
+            headers: { 'X-Error-Source': 'mapper' },
+          };
+        };
+
+        const server = new ElysiaServer({ app, mastra: createMockMastra(), errorMapper });
+        server.registerContextMiddleware();
+        await server.registerRoute(app, route, {});
+
+        const response = await app.handle(new Request(`http://localhost${path}`));
+
+        expect(response.status).toBe(mappedStatus);
+        expect(response.headers.get('Content-Type')).toBe('application/json');
+        expect(response.headers.get('X-Error-Source')).toBe('mapper');
+        expect(await response.json()).toEqual({ code: 'CUSTOM', original: thrownStatus });
+        expect((receivedError as Error).message).toBe('Mapped failure');
+        expect(receivedRoute).toBe(route);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('falls back to problem details when errorMapper returns undefined or throws', async () => {
+    await fc.assert(
+      fc.asyncProperty(pathArb, statusArb, fc.boolean(), async (path, status, shouldThrow) => {
+        const app = new Elysia();
+        const errorMapper: ErrorMapper = () => {
+          if (shouldThrow) {
+            throw new Error('Mapper failure');
+          }
+          return undefined;
+        };
+
+        const server = new ElysiaServer({ app, mastra: createMockMastra(), errorMapper });
+        server.registerContextMiddleware();
+        await server.registerRoute(app, createFailingRoute(path, status, 'Unmapped'), {});
+
+        const response = await app.handle(new Request(`http://localhost${path}`));
+
+        expect(response.status).toBe(status);
+        expect(response.headers.get('Content-Type')).toBe(PROBLEM_CONTENT_TYPE);
+        const body = (await response.json()) as ProblemDetails;
+        expect(body.status).toBe(status);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,289 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 13: Request ID Propagation
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia, type Context } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { LogFields, MastraLogger } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { RequestContext } from '@mastra/core/request-context';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 13: Request ID Propagation
+ *
+ * For any request processed after `registerContextMiddleware()` is called:
+ * - A well-formed incoming request id SHALL be reused, otherwise one SHALL be generated
+ * - The id SHALL be stored in requestContext and echoed in the response headers
+ * - Client-supplied requestContext SHALL NOT override the id
+ * - SSE events and request-scoped log calls SHALL carry the id
+ * - Problem bodies sent without a derived id SHALL resolve one with the same
+ *   options, never echoing a malformed or untrusted header
+ */
+describe('Property 13: Request ID Propagation', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const requestIdArb = fc.stringMatching(/^[a-zA-Z0-9-]{8,36}$/);
+
+  const headerNameArb = fc.constantFrom('X-Request-Id', 'X-Correlation-Id', 'X-Trace');
+
+  test('reuses incoming ids and echoes them in the configured header', async () => {
+    await fc.assert(
+      fc.asyncProperty(requestIdArb, headerNameArb, async (requestId, header) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          requestIdOptions: { header },
+        });
+        server.registerContextMiddleware();
+
+        let derivedId: unknown;
+        let contextId: unknown;
+        app.get('/test', (context) => {
+          const ctx = context as unknown as { requestId: string; requestContext: RequestContext };
+          derivedId = ctx.requestId;
+          contextId = ctx.requestContext.get('requestId');
+          return { ok: true };
+        });
+
+        const response = await app.handle(
+          new Request('http://localhost/test', { headers: { [header]: requestId } })
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get(header)).toBe(requestId);
+        expect(derivedId).toBe(requestId);
+        expect(contextId).toBe(requestId);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('generates ids when missing, malformed or untrusted', async () => {
+    const incomingArb = fc.oneof(
+      fc.constant(undefined),
+      fc.constant('bad id with spaces'),
+      fc.constant('x'.repeat(200)),
+      requestIdArb
+    );
+
+    await fc.assert(
+      fc.asyncProperty(incomingArb, requestIdArb, async (incoming, generatedId) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          requestIdOptions: { generator: () => generatedId, trustIncoming: false },
+        });
+        server.registerContextMiddleware();
+        app.get('/test', () => ({ ok: true }));
+
+        const headers: Record<string, string> = incoming ? { 'X-Request-Id': incoming } : {};
+        const response = await app.handle(new Request('http://localhost/test', { headers }));
+
+        expect(response.headers.get('X-Request-Id')).toBe(generatedId);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('problem bodies without a derived id resolve it like the middleware', async () => {
+    const incomingArb = fc.oneof(fc.constant('bad id with spaces'), requestIdArb);
+
+    await fc.assert(
+      fc.asyncProperty(
+        incomingArb,
+        headerNameArb,
+        fc.boolean(),
+        fc.constantFrom('run-stream', 'route-error'),
+        async (incoming, header, trustIncoming, endpoint) => {
+          // No context middleware, so nothing derives the id
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            requestIdOptions: { header, trustIncoming, generator: () => 'generated' },
+            streamOptions: { detach: true },
+          });
+          server.registerRunStreamRoute();
+          const route = {
+            path: '/fail',
+            method: 'GET' as const,
+            handler: async () => {
+              throw Object.assign(new Error('Not here'), { status: 404 });
+            },
+            responseType: 'json' as const,
+          } as unknown as ServerRoute;
+          await server.registerRoute(app, route, {});
+
+          const path = endpoint === 'run-stream' ? '/runs/unknown/stream' : '/fail';
+          const response = await app.handle(
+            new Request(`http://localhost${path}`, {
+              headers: { [header]: incoming, 'X-Request-Id': incoming },
+            })
+          );
+          const { requestId } = (await response.json()) as { requestId: string };
+
+          expect(response.status).toBe(404);
+          const valid = incoming !== 'bad id with spaces';
+          expect(requestId).toBe(valid && trustIncoming ? incoming : 'generated');
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('client-supplied requestContext cannot override the request id', async () => {
+    await fc.assert(
+      fc.asyncProperty(requestIdArb, requestIdArb, async (requestId, spoofedId) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({ app, mastra: createMockMastra() });
+        server.registerContextMiddleware();
+
+        const captured: { requestContext?: RequestContext } = {};
+        const route = {
+          path: '/test',
+          method: 'POST' as const,
+          handler: async ({ requestContext }: { requestContext: RequestContext }) => {
+            captured.requestContext = requestContext;
+            return { ok: true };
+          },
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const queryContext = encodeURIComponent(JSON.stringify({ source: 'query' }));
+        const response = await app.handle(
+          new Request(`http://localhost/test?requestContext=${queryContext}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Request-Id': requestId },
+            body: JSON.stringify({ requestContext: { requestId: spoofedId, extra: 'body' } }),
+          })
+        );
+
+        expect(response.status).toBe(200);
+        expect(captured.requestContext!.get('requestId') as unknown).toBe(requestId);
+        expect(captured.requestContext!.get('source') as unknown).toBe('query');
+        expect(captured.requestContext!.get('extra') as unknown).toBe('body');
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('SSE events carry the request id', async () => {
+    const chunkArb = fc.record({
+      type: fc.constantFrom('text-delta', 'step-start'),
+      content: fc.stringMatching(/^[a-zA-Z0-9 ]{1,20}$/),
+    });
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { minLength: 1, maxLength: 5 }),
+        requestIdArb,
+        async (chunks, requestId) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            streamOptions: { redact: false },
+          });
+
+          let index = 0;
+          const fullStream = new ReadableStream({
+            pull(controller) {
+              if (index < chunks.length) {
+                controller.enqueue(chunks[index++]);
+              } else {
+                controller.close();
+              }
+            },
+          });
+
+          const route = { path: '/s', method: 'GET', responseType: 'stream', streamFormat: 'sse' };
+          const context = { requestId, set: { status: 200, headers: {} } } as unknown as Context;
+          const response = (await server.stream(route as unknown as ServerRoute, context, {
+            fullStream,
+          })) as Response;
+
+          const events = (await response.text())
+            .split('\n')
+            .filter((line) => line.startsWith('data: {'))
+            .map((line) => JSON.parse(line.slice(6)) as { requestId: string });
+
+          expect(events.length).toBe(chunks.length);
+          for (const event of events) {
+            expect(event.requestId).toBe(requestId);
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('request-scoped log calls receive the request id', async () => {
+    await fc.assert(
+      fc.asyncProperty(requestIdArb, async (requestId) => {
+        const app = new Elysia();
+        const errorFields: Array<LogFields | undefined> = [];
+        const logger: MastraLogger = {
+          error: (_message, _error, fields) => errorFields.push(fields),
+          warn: () => {},
+          info: () => {},
+        };
+
+        const server = new ElysiaServer({ app, mastra: createMockMastra(), logger });
+        server.registerContextMiddleware();
+
+        const route = {
+          path: '/fail',
+          method: 'GET' as const,
+          handler: async () => {
+            throw new Error('boom');
+          },
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const response = await app.handle(
+          new Request('http://localhost/fail', { headers: { 'X-Request-Id': requestId } })
+        );
+
+        expect(response.status).toBe(500);
+        expect(errorFields.length).toBeGreaterThan(0);
+        for (const fields of errorFields) {
+          expect(fields?.requestId).toBe(requestId);
+        }
+
+        const body = (await response.json()) as { requestId: string };
+        expect(body.requestId).toBe(requestId);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Property-based tests for ElysiaServer - Property 14: Structured Logging
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import { createConsoleJsonLogger, createPinoLogger, toStructuredLogger } from '../logger';
+import type { LogFields, LogLevel, MastraLogger, PinoLikeLogger } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 14: Structured Logging
+ *
+ * For any logger and fields:
+ * - Child loggers SHALL merge their bindings into every call, with call fields winning
+ * - The console-JSON logger SHALL write one parseable JSON line per call at or above its level
+ * - The pino adapter SHALL pass fields as the merge object and errors under `err`
+ * - Route errors SHALL be logged with route, method, path, status and requestId fields
+ */
+describe('Property 14: Structured Logging', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const fieldsArb = fc.dictionary(
+    fc.stringMatching(/^[a-z][a-zA-Z]{0,9}$/),
+    fc.oneof(fc.string({ maxLength: 20 }), fc.integer()),
+    { maxKeys: 4 }
+  ) as fc.Arbitrary<LogFields>;
+
+  const messageArb = fc.stringMatching(/^[a-zA-Z ]{1,30}$/);
+
+  const levelArb = fc.constantFrom<LogLevel>('debug', 'info', 'warn', 'error');
+
+  test('child loggers merge bindings into plain MastraLogger calls', async () => {
+    await fc.assert(
+      fc.property(fieldsArb, fieldsArb, messageArb, (bindings, fields, message) => {
+        const calls: Array<{ message: string; fields?: LogFields }> = [];
+        const plain: MastraLogger = {
+          error: (msg, _error, f) => calls.push({ message: msg, fields: f }),
+          warn: (msg, f) => calls.push({ message: msg, fields: f }),
+          info: (msg, f) => calls.push({ message: msg, fields: f }),
+        };
+
+        const child = toStructuredLogger(plain).child(bindings);
+        child.info(message, fields);
+        child.child({ nested: true }).warn(message);
+
+        expect(calls[0]).toEqual({ message, fields: { ...bindings, ...fields } });
+        expect(calls[1]).toEqual({ message, fields: { ...bindings, nested: true } });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('console-JSON logger writes parseable lines at or above its level', async () => {
+    const levelOrder = ['debug', 'info', 'warn', 'error'];
+
+    await fc.assert(
+      fc.property(
+        levelArb,
+        levelArb,
+        fieldsArb,
+        messageArb,
+        (minLevel, callLevel, fields, message) => {
+          const lines: string[] = [];
+          const logger = createConsoleJsonLogger({
+            level: minLevel,
+            bindings: { service: 'agents' },
+            write: (line) => lines.push(line),
+          });
+
+          if (callLevel === 'error') {
+            logger.error(message, new Error('boom'), fields);
+          } else {
+            logger[callLevel]?.(message, fields);
+          }
+
+          const shouldWrite = levelOrder.indexOf(callLevel) >= levelOrder.indexOf(minLevel);
+          expect(lines.length).toBe(shouldWrite ? 1 : 0);
+
+          if (shouldWrite) {
+            const line = JSON.parse(lines[0] as string) as Record<string, unknown>;
+            expect(line.level).toBe(callLevel);
+            expect(line.msg).toBe(message);
+            expect(typeof line.time).toBe('string');
+            for (const [key, value] of Object.entries({ service: 'agents', ...fields })) {
+              if (!['level', 'msg', 'time', 'err'].includes(key)) {
+                expect(line[key]).toEqual(value);
+              }
+            }
+            if (callLevel === 'error') {
+              expect((line.err as { message: string }).message).toBe('boom');
+            }
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('pino adapter passes fields as the merge object and errors under err', async () => {
+    await fc.assert(
+      fc.property(fieldsArb, fieldsArb, messageArb, (bindings, fields, message) => {
+        const calls: Array<{ level: string; obj: object; msg?: string; bindings: object }> = [];
+        const createPino = (pinoBindings: object): PinoLikeLogger => ({
+          error: (obj, msg) => calls.push({ level: 'error', obj, msg, bindings: pinoBindings }),
+          warn: (obj, msg) => calls.push({ level: 'warn', obj, msg, bindings: pinoBindings }),
+          info: (obj, msg) => calls.push({ level: 'info', obj, msg, bindings: pinoBindings }),
+          debug: (obj, msg) => calls.push({ level: 'debug', obj, msg, bindings: pinoBindings }),
+          child: (childBindings) => createPino({ ...pinoBindings, ...childBindings }),
+        });
+
+        const error = new Error('boom');
+        const logger = createPinoLogger(createPino({})).child(bindings);
+        logger.info(message, fields);
+        logger.error(message, error, fields);
+
+        expect(calls[0]).toEqual({ level: 'info', obj: fields, msg: message, bindings });
+        expect(calls[1]).toEqual({
+          level: 'error',
+          obj: { ...fields, err: error },
+          msg: message,
+          bindings,
+        });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('route errors are logged with structured request fields', async () => {
+    const segmentArb = fc.stringMatching(/^[a-z][a-z0-9]{0,9}$/);
+    const statusArb = fc.constantFrom(400, 404, 409, 500, 503);
+
+    await fc.assert(
+      fc.asyncProperty(segmentArb, segmentArb, statusArb, async (prefix, id, status) => {
+        const app = new Elysia();
+        const lines: Array<Record<string, unknown>> = [];
+        const logger = createConsoleJsonLogger({
+          level: 'error',
+          write: (line) => lines.push(JSON.parse(line)),
+        });
+
+        const server = new ElysiaServer({ app, mastra: createMockMastra(), logger });
+        server.registerContextMiddleware();
+
+        const route = {
+          path: '/items/:id',
+          method: 'GET' as const,
+          handler: async () => {
+            throw Object.assign(new Error('failed'), { status });
+          },
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, { prefix: `/${prefix}` });
+
+        await app.handle(
+          new Request(`http://localhost/${prefix}/items/${id}`, {
+            headers: { 'X-Request-Id': 'req-12345678' },
+          })
+        );
+
+        expect(lines.length).toBe(1);
+        expect(lines[0]).toMatchObject({
+          level: 'error',
+          msg: 'Route error',
+          route: `/${prefix}/items/:id`,
+          method: 'GET',
+          path: `/${prefix}/items/${id}`,
+          status,
+          requestId: 'req-12345678',
+        });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,248 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 15: Access Logging
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { AccessLogEntry, LogFields, MastraLogger } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 15: Access Logging
+ *
+ * For any Mastra route handled with `accessLog` enabled:
+ * - One entry SHALL be recorded with method, route pattern, path, status and requestId
+ * - bytesSent SHALL equal the size of the response body
+ * - Streamed responses SHALL be recorded when the stream closes, not when the Response is returned
+ * - Failed routes SHALL be recorded with their error status
+ * - No entries SHALL be recorded when `accessLog` is not enabled
+ */
+describe('Property 15: Access Logging', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const segmentArb = fc.stringMatching(/^[a-z][a-z0-9]{0,9}$/);
+
+  const payloadArb = fc.dictionary(
+    fc.stringMatching(/^[a-z]{1,8}$/),
+    fc.oneof(fc.string({ maxLength: 30 }), fc.integer()),
+    { maxKeys: 5 }
+  );
+
+  test('JSON routes record one entry with status, bytes and timings', async () => {
+    await fc.assert(
+      fc.asyncProperty(segmentArb, payloadArb, async (id, payload) => {
+        const app = new Elysia();
+        const entries: AccessLogEntry[] = [];
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          accessLog: { onEntry: (entry) => entries.push(entry) },
+        });
+        server.registerContextMiddleware();
+
+        const route = {
+          path: '/items/:id',
+          method: 'GET' as const,
+          handler: async () => payload,
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, { prefix: '/api' });
+
+        const response = await app.handle(
+          new Request(`http://localhost/api/items/${id}`, {
+            headers: { 'X-Request-Id': 'req-12345678' },
+          })
+        );
+        const body = new Uint8Array(await response.arrayBuffer());
+
+        expect(response.status).toBe(200);
+        expect(entries.length).toBe(1);
+        expect(entries[0]).toMatchObject({
+          method: 'GET',
+          route: '/api/items/:id',
+          path: `/api/items/${id}`,
+          status: 200,
+          responseType: 'json',
+          requestId: 'req-12345678',
+          bytesSent: body.byteLength,
+          outcome: 'complete',
+        });
+        expect(entries[0]!.durationMs).toBeGreaterThanOrEqual(0);
+        expect(entries[0]!.ttfbMs).toBeLessThanOrEqual(entries[0]!.durationMs);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('streamed responses are recorded when the stream closes', async () => {
+    const chunksArb = fc.array(fc.stringMatching(/^[a-zA-Z0-9 ]{1,20}$/), {
+      minLength: 1,
+      maxLength: 5,
+    });
+
+    await fc.assert(
+      fc.asyncProperty(chunksArb, async (chunks) => {
+        const app = new Elysia();
+        const entries: AccessLogEntry[] = [];
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          accessLog: { onEntry: (entry) => entries.push(entry) },
+          streamOptions: { redact: false },
+        });
+        server.registerContextMiddleware();
+
+        // The stream stays open until the test closes it
+        let closeStream = () => {};
+        const route = {
+          path: '/stream',
+          method: 'POST' as const,
+          handler: async () => ({
+            fullStream: new ReadableStream({
+              start(controller) {
+                for (const content of chunks) {
+                  controller.enqueue({ type: 'text-delta', content });
+                }
+                closeStream = () => controller.close();
+              },
+            }),
+          }),
+          responseType: 'stream' as const,
+          streamFormat: 'sse' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const response = await app.handle(
+          new Request('http://localhost/stream', {
+            method: 'POST',
+            headers: { 'X-Request-Id': 'req-12345678' },
+          })
+        );
+
+        expect(entries.length).toBe(0);
+
+        closeStream();
+        const body = new Uint8Array(await response.arrayBuffer());
+
+        expect(entries.length).toBe(1);
+        expect(entries[0]).toMatchObject({
+          method: 'POST',
+          route: '/stream',
+          status: 200,
+          responseType: 'stream',
+          bytesSent: body.byteLength,
+          outcome: 'complete',
+        });
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('failed routes are recorded with their error status', async () => {
+    const statusArb = fc.constantFrom(400, 404, 409, 500, 503);
+
+    await fc.assert(
+      fc.asyncProperty(statusArb, async (status) => {
+        const app = new Elysia();
+        const infoFields: Array<LogFields | undefined> = [];
+        const logger: MastraLogger = {
+          error: () => {},
+          warn: () => {},
+          info: (message, fields) => {
+            if (message === 'Request completed') {
+              infoFields.push(fields);
+            }
+          },
+        };
+
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          logger,
+          accessLog: true,
+        });
+        server.registerContextMiddleware();
+
+        const route = {
+          path: '/fail',
+          method: 'GET' as const,
+          handler: async () => {
+            throw Object.assign(new Error('failed'), { status });
+          },
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const response = await app.handle(new Request('http://localhost/fail'));
+        const body = new Uint8Array(await response.arrayBuffer());
+
+        expect(response.status).toBe(status);
+        expect(infoFields.length).toBe(1);
+        expect(infoFields[0]).toMatchObject({
+          route: '/fail',
+          status,
+          bytesSent: body.byteLength,
+        });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('no entries are recorded when access logging is disabled', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(undefined, false),
+        payloadArb,
+        async (accessLog, payload) => {
+          const app = new Elysia();
+          const messages: string[] = [];
+          const logger: MastraLogger = {
+            error: (message) => messages.push(message),
+            warn: (message) => messages.push(message),
+            info: (message) => messages.push(message),
+            debug: (message) => messages.push(message),
+          };
+
+          const server = new ElysiaServer({ app, mastra: createMockMastra(), logger, accessLog });
+          server.registerContextMiddleware();
+
+          const route = {
+            path: '/test',
+            method: 'GET' as const,
+            handler: async () => payload,
+            responseType: 'json' as const,
+          } as unknown as ServerRoute;
+          await server.registerRoute(app, route, {});
+
+          const response = await app.handle(new Request('http://localhost/test'));
+
+          expect(response.status).toBe(200);
+          expect(messages).not.toContain('Request completed');
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
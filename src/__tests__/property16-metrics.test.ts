@@ -0,0 +1,328 @@
+/**
+ * Property-based tests for ElysiaServer - Property 16: Metrics
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 16: Metrics
+ *
+ * For any requests handled with `metrics` enabled:
+ * - Request counters and latency histograms SHALL be labelled by route pattern, method and status
+ * - The in-flight streams gauge SHALL count open streams, and chunk counters SHALL count sent chunks
+ * - Auth failures SHALL be counted by status (401 vs 403), and body limit rejections SHALL be counted
+ * - The endpoint SHALL honour the server prefix and negotiate the OpenMetrics format
+ */
+describe('Property 16: Metrics', () => {
+  const createMockMastra = (auth?: {
+    authenticateToken?: (token: string) => Promise<unknown>;
+    authorize?: (path: string) => Promise<boolean>;
+  }) => {
+    return {
+      getServer: () => (auth ? { auth } : null),
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  /**
+   * Returns the value of a sample, or undefined when it is not exposed.
+   */
+  const sampleValue = (
+    text: string,
+    name: string,
+    labels: Record<string, string | number>
+  ): number | undefined => {
+    const rendered = Object.entries(labels)
+      .map(([key, value]) => `${key}="${value}"`)
+      .join(',');
+    const prefix = `${name}{${rendered}} `;
+    const line = text.split('\n').find((candidate) => candidate.startsWith(prefix));
+    return line === undefined ? undefined : Number(line.slice(prefix.length));
+  };
+
+  const scrape = async (app: Elysia, path = '/metrics') =>
+    (await app.handle(new Request(`http://localhost${path}`))).text();
+
+  const segmentArb = fc.stringMatching(/^[a-z][a-z0-9]{0,9}$/);
+
+  test('requests are counted and timed by route pattern and status', async () => {
+    const statusArb = fc.constantFrom(200, 404, 500);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(segmentArb, statusArb), { minLength: 1, maxLength: 10 }),
+        async (requests) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            prefix: '/api',
+            metrics: { buckets: [0.5, 0.1, 60] },
+          });
+          server.registerContextMiddleware();
+
+          const route = {
+            path: '/items/:id',
+            method: 'GET' as const,
+            handler: async ({ status }: { status: string }) => {
+              if (status !== '200') {
+                throw Object.assign(new Error('failed'), { status: Number(status) });
+              }
+              return { ok: true };
+            },
+            responseType: 'json' as const,
+          } as unknown as ServerRoute;
+          await server.registerRoute(app, route, { prefix: '/api' });
+          server.registerMetricsRoute();
+
+          for (const [id, status] of requests) {
+            const response = await app.handle(
+              new Request(`http://localhost/api/items/${id}?status=${status}`)
+            );
+            // Responses are recorded once their body has been sent
+            await response.text();
+          }
+
+          const text = await scrape(app, '/api/metrics');
+          expect(text).toContain('# TYPE mastra_http_requests_total counter');
+          expect(text).toContain('# TYPE mastra_http_request_duration_seconds histogram');
+
+          for (const status of [200, 404, 500]) {
+            const expected = requests.filter(([, s]) => s === status).length;
+            const labels = { method: 'GET', route: '/api/items/:id', status };
+
+            expect(sampleValue(text, 'mastra_http_requests_total', labels)).toBe(
+              expected === 0 ? undefined : expected
+            );
+            expect(
+              sampleValue(text, 'mastra_http_request_duration_seconds_bucket', {
+                ...labels,
+                le: '+Inf',
+              })
+            ).toBe(expected === 0 ? undefined : expected);
+            // Custom buckets are sorted
+            expect(
+              sampleValue(text, 'mastra_http_request_duration_seconds_bucket', {
+                ...labels,
+                le: 60,
+              })
+            ).toBe(expected === 0 ? undefined : expected);
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('stream gauges and chunk counters track open streams', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 10 }), async (chunkCount) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          metrics: true,
+          streamOptions: { redact: false },
+        });
+        server.registerContextMiddleware();
+
+        // The stream stays open until the test closes it
+        let closeStream = () => {};
+        const route = {
+          path: '/agents/:agentId/stream',
+          method: 'POST' as const,
+          handler: async () => ({
+            fullStream: new ReadableStream({
+              start(controller) {
+                for (let i = 0; i < chunkCount; i++) {
+                  controller.enqueue({ type: 'text-delta', index: i });
+                }
+                closeStream = () => controller.close();
+              },
+            }),
+          }),
+          responseType: 'stream' as const,
+          streamFormat: 'sse' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+        server.registerMetricsRoute();
+
+        const response = await app.handle(
+          new Request('http://localhost/agents/a1/stream', { method: 'POST' })
+        );
+
+        const labels = { route: '/agents/:agentId/stream' };
+        expect(sampleValue(await scrape(app), 'mastra_streams_in_flight', labels)).toBe(1);
+
+        closeStream();
+        await response.text();
+
+        const text = await scrape(app);
+        expect(sampleValue(text, 'mastra_streams_in_flight', labels)).toBe(0);
+        expect(sampleValue(text, 'mastra_stream_chunks_total', labels)).toBe(chunkCount);
+        expect(
+          sampleValue(text, 'mastra_http_requests_total', {
+            method: 'POST',
+            route: '/agents/:agentId/stream',
+            status: 200,
+          })
+        ).toBe(1);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('auth failures are counted by status and the endpoint can be made public', async () => {
+    const outcomeArb = fc.constantFrom('unauthenticated', 'forbidden', 'allowed');
+
+    await fc.assert(
+      fc.asyncProperty(fc.array(outcomeArb, { minLength: 1, maxLength: 10 }), async (outcomes) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra({
+            authenticateToken: async (token) => (token === 'none' ? null : { id: token }),
+            // `authorize` still runs on public routes, with a null user
+            authorize: async (path) => path === '/metrics' || path === '/open',
+          }),
+          metrics: true,
+          customRouteAuthConfig: new Map([
+            ['GET:/metrics', false],
+            ['GET:/open', false],
+          ]),
+        });
+        server.registerAuthMiddleware();
+        app.get('/private', () => ({ ok: true }));
+        app.get('/open', () => ({ ok: true }));
+        server.registerMetricsRoute();
+
+        for (const outcome of outcomes) {
+          const path = outcome === 'allowed' ? '/open' : '/private';
+          const token = outcome === 'unauthenticated' ? 'none' : 'user-1';
+          await app.handle(
+            new Request(`http://localhost${path}`, {
+              headers: { Authorization: `Bearer ${token}` },
+            })
+          );
+        }
+
+        const response = await app.handle(new Request('http://localhost/metrics'));
+        expect(response.status).toBe(200);
+        const text = await response.text();
+
+        const count = (outcome: string) => {
+          const expected = outcomes.filter((o) => o === outcome).length;
+          return expected === 0 ? undefined : expected;
+        };
+        expect(
+          sampleValue(text, 'mastra_auth_failures_total', {
+            method: 'GET',
+            route: '/private',
+            status: 401,
+          })
+        ).toBe(count('unauthenticated'));
+        expect(
+          sampleValue(text, 'mastra_auth_failures_total', {
+            method: 'GET',
+            route: '/private',
+            status: 403,
+          })
+        ).toBe(count('forbidden'));
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('body limit rejections are counted', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.integer({ min: 1, max: 200 }), { minLength: 1, maxLength: 10 }),
+        async (sizes) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            metrics: true,
+            bodyLimitOptions: { maxSize: 100, onError: () => ({ error: 'too large' }) },
+          });
+          server.registerBodyLimitMiddleware();
+          app.post('/upload', () => ({ ok: true }));
+          server.registerMetricsRoute();
+
+          for (const size of sizes) {
+            await app.handle(
+              new Request('http://localhost/upload', {
+                method: 'POST',
+                headers: { 'Content-Type': 'text/plain' },
+                body: 'x'.repeat(size),
+              })
+            );
+          }
+
+          const expected = sizes.filter((size) => size > 100).length;
+          expect(
+            sampleValue(await scrape(app), 'mastra_body_limit_rejections_total', {
+              method: 'POST',
+              route: '/upload',
+            })
+          ).toBe(expected === 0 ? undefined : expected);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('serves OpenMetrics to clients that accept it', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.boolean(), segmentArb, async (openMetrics, namePrefix) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          metrics: { path: '/stats', namePrefix: `${namePrefix}_` },
+        });
+        server.registerContextMiddleware();
+        server.registerMetricsRoute();
+
+        const response = await app.handle(
+          new Request('http://localhost/stats', {
+            headers: openMetrics
+              ? { Accept: 'application/openmetrics-text; version=1.0.0, text/plain;q=0.5' }
+              : {},
+          })
+        );
+        const text = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toStartWith(
+          openMetrics ? 'application/openmetrics-text' : 'text/plain'
+        );
+        expect(text.trimEnd().endsWith('# EOF')).toBe(openMetrics);
+        expect(text).toContain(
+          `# TYPE ${namePrefix}_http_requests${openMetrics ? '' : '_total'} counter`
+        );
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
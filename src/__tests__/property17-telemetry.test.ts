@@ -0,0 +1,352 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 17: OpenTelemetry Tracing
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { ElysiaServer } from '../server';
+import type { TraceContext } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { RequestContext } from '@mastra/core/request-context';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 17: OpenTelemetry Tracing
+ *
+ * For any Mastra route request with `telemetry` enabled:
+ * - A server span SHALL be created per request, with child spans for params,
+ *   validation, auth, the handler and the stream lifetime
+ * - A valid incoming `traceparent` SHALL be continued unless `trustIncoming` is false
+ * - The trace context SHALL be stored in requestContext under `traceContext`
+ * - Failures SHALL mark spans as errors, and short-circuited requests SHALL end their span
+ * - Non-Mastra routes SHALL NOT be traced
+ */
+describe('Property 17: OpenTelemetry Tracing', () => {
+  const createMockMastra = (auth?: {
+    authenticateToken?: (token: string) => Promise<unknown>;
+    authorize?: () => Promise<boolean>;
+  }) => {
+    return {
+      getServer: () => (auth ? { auth } : null),
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const createTracing = () => {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)],
+    });
+    return { exporter, tracer: provider.getTracer('test') };
+  };
+
+  const spanNamed = (spans: ReadableSpan[], name: string) =>
+    spans.find((span) => span.name === name);
+
+  const hexArb = (length: number) =>
+    fc
+      .array(fc.constantFrom(...'0123456789abcdef'), { minLength: length, maxLength: length })
+      .map((chars) => chars.join(''))
+      .filter((hex) => /[1-9a-f]/.test(hex));
+
+  const segmentArb = fc.stringMatching(/^[a-z][a-z0-9]{0,9}$/);
+
+  test('creates a server span with child spans for each handling step', async () => {
+    await fc.assert(
+      fc.asyncProperty(segmentArb, async (id) => {
+        const app = new Elysia();
+        const { exporter, tracer } = createTracing();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          telemetry: { tracer },
+        });
+        server.registerContextMiddleware();
+
+        const route = {
+          path: '/items/:id',
+          method: 'GET' as const,
+          handler: async () => ({ ok: true }),
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, { prefix: '/api' });
+
+        const response = await app.handle(new Request(`http://localhost/api/items/${id}`));
+        expect(response.status).toBe(200);
+
+        const spans = exporter.getFinishedSpans();
+        const requestSpan = spanNamed(spans, 'GET /api/items/:id')!;
+        expect(requestSpan.kind).toBe(SpanKind.SERVER);
+        expect(requestSpan.attributes['http.route']).toBe('/api/items/:id');
+        expect(requestSpan.attributes['url.path']).toBe(`/api/items/${id}`);
+        expect(requestSpan.attributes['http.response.status_code']).toBe(200);
+        expect(requestSpan.attributes['mastra.request_id']).toBe(
+          response.headers.get('X-Request-Id')!
+        );
+
+        for (const name of ['mastra.params', 'mastra.validate', 'mastra.handler']) {
+          const child = spanNamed(spans, name)!;
+          expect(child.spanContext().traceId).toBe(requestSpan.spanContext().traceId);
+          expect(child.parentSpanContext?.spanId).toBe(requestSpan.spanContext().spanId);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('continues incoming traceparent and stores the trace context', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        hexArb(32),
+        hexArb(16),
+        fc.boolean(),
+        async (traceId, parentId, trustIncoming) => {
+          const app = new Elysia();
+          const { exporter, tracer } = createTracing();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            telemetry: { tracer, trustIncoming },
+          });
+          server.registerContextMiddleware();
+
+          const captured: { traceContext?: TraceContext } = {};
+          const route = {
+            path: '/agents/:agentId/generate',
+            method: 'POST' as const,
+            handler: async ({ requestContext }: { requestContext: RequestContext }) => {
+              captured.traceContext = requestContext.get('traceContext') as unknown as TraceContext;
+              return { ok: true };
+            },
+            responseType: 'json' as const,
+          } as unknown as ServerRoute;
+          await server.registerRoute(app, route, {});
+
+          await app.handle(
+            new Request('http://localhost/agents/a1/generate', {
+              method: 'POST',
+              headers: { traceparent: `00-${traceId}-${parentId}-01` },
+            })
+          );
+
+          const requestSpan = spanNamed(
+            exporter.getFinishedSpans(),
+            'POST /agents/:agentId/generate'
+          )!;
+          const { traceId: spanTraceId, spanId } = requestSpan.spanContext();
+
+          if (trustIncoming) {
+            expect(spanTraceId).toBe(traceId);
+            expect(requestSpan.parentSpanContext?.spanId).toBe(parentId);
+          } else {
+            expect(spanTraceId).not.toBe(traceId);
+            expect(requestSpan.parentSpanContext).toBeUndefined();
+          }
+
+          expect(captured.traceContext).toEqual({
+            traceId: spanTraceId,
+            parentSpanId: spanId,
+            traceparent: `00-${spanTraceId}-${spanId}-01`,
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('traces auth and ends the request span when auth rejects', async () => {
+    const outcomeArb = fc.constantFrom('unauthenticated', 'forbidden', 'allowed');
+
+    await fc.assert(
+      fc.asyncProperty(outcomeArb, async (outcome) => {
+        const app = new Elysia();
+        const { exporter, tracer } = createTracing();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra({
+            authenticateToken: async (token) => (token === 'none' ? null : { id: token }),
+            authorize: async () => outcome === 'allowed',
+          }),
+          telemetry: { tracer },
+        });
+        server.registerContextMiddleware();
+        server.registerAuthMiddleware();
+
+        const route = {
+          path: '/agents',
+          method: 'GET' as const,
+          handler: async () => ({ agents: [] }),
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const token = outcome === 'unauthenticated' ? 'none' : 'user-1';
+        const response = await app.handle(
+          new Request('http://localhost/agents', {
+            headers: { Authorization: `Bearer ${token}` },
+          })
+        );
+
+        const expectedStatus = { unauthenticated: 401, forbidden: 403, allowed: 200 }[outcome];
+        expect(response.status).toBe(expectedStatus);
+
+        const spans = exporter.getFinishedSpans();
+        const requestSpan = spanNamed(spans, 'GET /agents')!;
+        expect(requestSpan.attributes['http.response.status_code']).toBe(expectedStatus);
+
+        const authenticate = spanNamed(spans, 'mastra.auth.authenticate')!;
+        expect(authenticate.parentSpanContext?.spanId).toBe(requestSpan.spanContext().spanId);
+        expect(spanNamed(spans, 'mastra.auth.authorize') !== undefined).toBe(
+          outcome !== 'unauthenticated'
+        );
+        expect(spanNamed(spans, 'mastra.handler') !== undefined).toBe(outcome === 'allowed');
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('stream spans last until the stream closes', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 10 }), async (chunkCount) => {
+        const app = new Elysia();
+        const { exporter, tracer } = createTracing();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          telemetry: { tracer },
+          streamOptions: { redact: false },
+        });
+        server.registerContextMiddleware();
+
+        // The stream stays open until the test closes it
+        let closeStream = () => {};
+        const route = {
+          path: '/agents/:agentId/stream',
+          method: 'POST' as const,
+          handler: async () => ({
+            fullStream: new ReadableStream({
+              start(controller) {
+                for (let i = 0; i < chunkCount; i++) {
+                  controller.enqueue({ type: 'text-delta', index: i });
+                }
+                closeStream = () => controller.close();
+              },
+            }),
+          }),
+          responseType: 'stream' as const,
+          streamFormat: 'sse' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const response = await app.handle(
+          new Request('http://localhost/agents/a1/stream', { method: 'POST' })
+        );
+
+        expect(spanNamed(exporter.getFinishedSpans(), 'mastra.handler')).toBeDefined();
+        expect(spanNamed(exporter.getFinishedSpans(), 'mastra.stream')).toBeUndefined();
+        expect(
+          spanNamed(exporter.getFinishedSpans(), 'POST /agents/:agentId/stream')
+        ).toBeUndefined();
+
+        closeStream();
+        await response.text();
+
+        const spans = exporter.getFinishedSpans();
+        const requestSpan = spanNamed(spans, 'POST /agents/:agentId/stream')!;
+        const streamSpan = spanNamed(spans, 'mastra.stream')!;
+        expect(streamSpan.parentSpanContext?.spanId).toBe(requestSpan.spanContext().spanId);
+        expect(streamSpan.attributes['mastra.stream.chunks']).toBe(chunkCount);
+        expect(streamSpan.attributes['mastra.stream.outcome']).toBe('complete');
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('failures mark spans as errors', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(400, 404, 500, 503), async (status) => {
+        const app = new Elysia();
+        const { exporter, tracer } = createTracing();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          telemetry: { tracer },
+        });
+        server.registerContextMiddleware();
+
+        const route = {
+          path: '/fail',
+          method: 'GET' as const,
+          handler: async () => {
+            throw Object.assign(new Error('failed'), { status });
+          },
+          responseType: 'json' as const,
+        } as unknown as ServerRoute;
+        await server.registerRoute(app, route, {});
+
+        const response = await app.handle(new Request('http://localhost/fail'));
+        await response.text();
+
+        const spans = exporter.getFinishedSpans();
+        const handlerSpan = spanNamed(spans, 'mastra.handler')!;
+        expect(handlerSpan.status.code).toBe(SpanStatusCode.ERROR);
+        expect(handlerSpan.events.some((event) => event.name === 'exception')).toBe(true);
+
+        const requestSpan = spanNamed(spans, 'GET /fail')!;
+        expect(requestSpan.attributes['http.response.status_code']).toBe(status);
+        expect(requestSpan.status.code).toBe(
+          status >= 500 ? SpanStatusCode.ERROR : SpanStatusCode.UNSET
+        );
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('non-Mastra routes are not traced', async () => {
+    await fc.assert(
+      fc.asyncProperty(segmentArb, async (path) => {
+        const app = new Elysia();
+        const { exporter, tracer } = createTracing();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          telemetry: { tracer },
+        });
+        server.registerContextMiddleware();
+        app.get(`/${path}`, () => ({ ok: true }));
+
+        const response = await app.handle(new Request(`http://localhost/${path}`));
+
+        expect(response.status).toBe(200);
+        expect(exporter.getFinishedSpans()).toEqual([]);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,410 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 18: SSE Replay
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import { createMemoryReplayStore, formatSseEvent, parseLastEventId } from '../replay';
+import type { ReplayEvent } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 18: SSE Replay
+ *
+ * For any SSE run with replay enabled:
+ * - A client reconnecting with `Last-Event-ID` SHALL receive every event after that id,
+ *   then the completion marker, without the route handler running again
+ * - Events produced after the reconnect SHALL be delivered live
+ * - A run that fails SHALL replay its error event instead of the completion marker
+ * - Unknown runs, runs started from another path and runs another user
+ *   started SHALL start a new run
+ * - The memory store SHALL stay bounded by maxEvents, maxRuns and ttlMs
+ */
+describe('Property 18: SSE Replay', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  interface ParsedEvent {
+    id: string;
+    event?: string;
+    data: string;
+  }
+
+  const parseEvents = (text: string): ParsedEvent[] =>
+    text
+      .split('\n\n')
+      .filter((block) => block.startsWith('id: '))
+      .map((block) => {
+        const fields = Object.fromEntries(
+          block
+            .split('\n')
+            .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+        );
+        return fields as unknown as ParsedEvent;
+      });
+
+  /**
+   * Reads SSE events from a response until `count` events have arrived, then
+   * disconnects.
+   */
+  const readEventsThenDisconnect = async (response: Response, count: number) => {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (parseEvents(text).length < count) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+    await reader.cancel();
+    return parseEvents(text).slice(0, count);
+  };
+
+  /**
+   * Creates a stream route whose source emits `chunks`, and a controller to
+   * push more chunks and close or fail it later.
+   */
+  const createRoute = (chunks: string[], keepOpen = false) => {
+    const state = {
+      calls: 0,
+      push: (_content: string) => {},
+      close: () => {},
+      fail: (_message: string) => {},
+    };
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async () => {
+        state.calls++;
+        return {
+          fullStream: new ReadableStream({
+            start(controller) {
+              for (const content of chunks) {
+                controller.enqueue({ type: 'text-delta', content });
+              }
+              state.push = (content) => controller.enqueue({ type: 'text-delta', content });
+              state.close = () => controller.close();
+              state.fail = (message) => controller.error(new Error(message));
+              if (!keepOpen) {
+                controller.close();
+              }
+            },
+          }),
+        };
+      },
+      responseType: 'stream' as const,
+      streamFormat: 'sse' as const,
+    } as unknown as ServerRoute;
+    return { route, state };
+  };
+
+  const contentArb = fc.stringMatching(/^[a-zA-Z0-9 ]{1,20}$/);
+
+  test('reconnecting clients receive every event after Last-Event-ID', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(contentArb, { minLength: 2, maxLength: 10 }),
+        fc.nat(),
+        async (chunks, seed) => {
+          const received = 1 + (seed % (chunks.length - 1));
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            streamOptions: { redact: false, replay: true },
+          });
+          server.registerContextMiddleware();
+          const { route, state } = createRoute(chunks);
+          await server.registerRoute(app, route, {});
+
+          const url = 'http://localhost/agents/a1/stream';
+          const first = await readEventsThenDisconnect(
+            await app.handle(new Request(url, { method: 'POST' })),
+            received
+          );
+          const lastEventId = first[first.length - 1]!.id;
+
+          const resumed = await app.handle(
+            new Request(url, { method: 'POST', headers: { 'Last-Event-ID': lastEventId } })
+          );
+          const text = await resumed.text();
+          const replayed = parseEvents(text);
+
+          expect(state.calls).toBe(1);
+          expect(text.endsWith('data: [DONE]\n\n')).toBe(true);
+          expect(replayed.map((event) => JSON.parse(event.data).content)).toEqual(
+            chunks.slice(received)
+          );
+          expect(replayed.map((event) => parseLastEventId(event.id)!.eventId)).toEqual(
+            chunks.slice(received).map((_, index) => received + index + 1)
+          );
+          for (const event of replayed) {
+            expect(event.event).toBe('text-delta');
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('events produced after the reconnect are delivered live', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(contentArb, { minLength: 1, maxLength: 5 }),
+        fc.array(contentArb, { minLength: 1, maxLength: 5 }),
+        async (before, after) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            streamOptions: { redact: false, replay: true },
+          });
+          server.registerContextMiddleware();
+          const { route, state } = createRoute(before, true);
+          await server.registerRoute(app, route, {});
+
+          const url = 'http://localhost/agents/a1/stream';
+          const first = await readEventsThenDisconnect(
+            await app.handle(new Request(url, { method: 'POST' })),
+            before.length
+          );
+
+          const resumed = await app.handle(
+            new Request(url, {
+              method: 'POST',
+              headers: { 'Last-Event-ID': first[first.length - 1]!.id },
+            })
+          );
+
+          for (const content of after) {
+            state.push(content);
+          }
+          state.close();
+
+          const replayed = parseEvents(await resumed.text());
+          expect(replayed.map((event) => JSON.parse(event.data).content)).toEqual(after);
+          expect(state.calls).toBe(1);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('a failed run replays its error event instead of the completion marker', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(contentArb, { minLength: 1, maxLength: 5 }), async (before) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          streamOptions: { redact: false, replay: true },
+        });
+        server.registerContextMiddleware();
+        const { route, state } = createRoute(before, true);
+        await server.registerRoute(app, route, {});
+
+        const url = 'http://localhost/agents/a1/stream';
+        const first = await readEventsThenDisconnect(
+          await app.handle(new Request(url, { method: 'POST' })),
+          before.length
+        );
+
+        const resumed = await app.handle(
+          new Request(url, {
+            method: 'POST',
+            headers: { 'Last-Event-ID': first[first.length - 1]!.id },
+          })
+        );
+        state.fail('model exploded');
+
+        const text = await resumed.text();
+        const replayed = parseEvents(text);
+        expect(text).not.toContain('[DONE]');
+        expect(replayed).toHaveLength(1);
+        expect(replayed[0]!.event).toBe('error');
+        expect(JSON.parse(replayed[0]!.data)).toMatchObject({
+          code: 'stream_error',
+          message: 'model exploded',
+        });
+
+        return true;
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('runs another user started are not resumed', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(contentArb, { minLength: 2, maxLength: 5 }), async (chunks) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          streamOptions: { redact: false, replay: true },
+          auth: { authenticateToken: async (token) => ({ id: token }) },
+        });
+        server.registerContextMiddleware();
+        server.registerAuthMiddleware();
+        const { route, state } = createRoute(chunks);
+        await server.registerRoute(app, route, {});
+
+        const url = 'http://localhost/agents/a1/stream';
+        const start = (user: string, lastEventId?: string) =>
+          app.handle(
+            new Request(url, {
+              method: 'POST',
+              headers: {
+                Authorization: `Bearer ${user}`,
+                ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+              },
+            })
+          );
+        const [first] = await readEventsThenDisconnect(await start('alice'), 1);
+
+        await (await start('bob', first!.id)).text();
+        expect(state.calls).toBe(2);
+
+        const resumed = parseEvents(await (await start('alice', first!.id)).text());
+        expect(state.calls).toBe(2);
+        expect(resumed.map((event) => JSON.parse(event.data).content)).toEqual(chunks.slice(1));
+
+        return true;
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('unknown runs and other paths start a new run', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.boolean(), async (unknownRun) => {
+        const app = new Elysia();
+        const server = new ElysiaServer({
+          app,
+          mastra: createMockMastra(),
+          streamOptions: { redact: false, replay: true },
+        });
+        server.registerContextMiddleware();
+        const { route, state } = createRoute(['hello']);
+        await server.registerRoute(app, route, {});
+
+        const first = parseEvents(
+          await (
+            await app.handle(new Request('http://localhost/agents/a1/stream', { method: 'POST' }))
+          ).text()
+        );
+        const lastEventId = unknownRun ? `${crypto.randomUUID()}:1` : first[0]!.id;
+        const path = unknownRun ? '/agents/a1/stream' : '/agents/a2/stream';
+
+        const second = await app.handle(
+          new Request(`http://localhost${path}`, {
+            method: 'POST',
+            headers: { 'Last-Event-ID': lastEventId },
+          })
+        );
+        const events = parseEvents(await second.text());
+
+        expect(state.calls).toBe(2);
+        expect(events.length).toBe(1);
+        expect(parseLastEventId(events[0]!.id)!.runId).not.toBe(
+          parseLastEventId(first[0]!.id)!.runId
+        );
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('memory store keeps the most recent events and runs', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 10 }),
+        fc.integer({ min: 1, max: 30 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 10 }),
+        async (maxEvents, eventCount, maxRuns, runCount) => {
+          const store = createMemoryReplayStore({ maxEvents, maxRuns });
+
+          const runIds = Array.from({ length: runCount }, (_, index) => `run-${index}`);
+          for (const runId of runIds) {
+            store.create(runId, '/stream');
+            for (let id = 1; id <= eventCount; id++) {
+              store.append(runId, { id, data: String(id) });
+            }
+          }
+
+          const kept = runIds.slice(-maxRuns);
+          for (const runId of runIds) {
+            const run = store.read(runId, 0) as { events: ReplayEvent[] } | undefined;
+            if (!kept.includes(runId)) {
+              expect(run).toBeUndefined();
+              continue;
+            }
+            expect(run!.events.map((event) => event.id)).toEqual(
+              Array.from(
+                { length: Math.min(maxEvents, eventCount) },
+                (_, index) => eventCount - Math.min(maxEvents, eventCount) + index + 1
+              )
+            );
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('memory store expires runs and wakes subscribers', async () => {
+    const store = createMemoryReplayStore({ ttlMs: -1 });
+    store.create('run-1', '/stream');
+
+    let woken = false;
+    store.subscribe('run-1', () => {
+      woken = true;
+    });
+
+    expect(store.read('run-1', 0)).toBeUndefined();
+    expect(woken).toBe(true);
+  });
+
+  test('event ids round-trip through Last-Event-ID', async () => {
+    await fc.assert(
+      fc.property(
+        fc.uuid(),
+        fc.integer({ min: 1, max: 1_000_000 }),
+        fc.option(fc.constantFrom('text-delta', 'tool-call', 'finish'), { nil: undefined }),
+        (runId, id, event) => {
+          const formatted = formatSseEvent(runId, { id, event, data: '{}' });
+          const idLine = formatted.split('\n')[0]!;
+
+          expect(parseLastEventId(idLine.slice('id: '.length))).toEqual({ runId, eventId: id });
+          expect(formatted.includes('event: ')).toBe(event !== undefined);
+          expect(formatted.endsWith('data: {}\n\n')).toBe(true);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
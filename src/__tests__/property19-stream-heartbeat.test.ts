@@ -0,0 +1,156 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 19: Stream Heartbeat
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 19: Stream Heartbeat
+ *
+ * For any stream with `heartbeatMs` configured:
+ * - An idle SSE stream SHALL receive `: ping` comments, and an idle ndjson stream empty records
+ * - Streams that keep producing chunks SHALL NOT receive heartbeats
+ * - Heartbeats SHALL stop when the stream completes or the client disconnects
+ */
+describe('Property 19: Stream Heartbeat', () => {
+  const HEARTBEAT_MS = 10;
+
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Registers a stream route whose source emits one chunk, waits `idleMs`,
+   * then emits a second chunk and closes. A source without `idleMs` stays
+   * silent after its first chunk.
+   */
+  const createApp = async (streamFormat: 'sse' | 'stream', idleMs?: number) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact: false, heartbeatMs: HEARTBEAT_MS },
+    });
+    server.registerContextMiddleware();
+
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async () => ({
+        fullStream: new ReadableStream({
+          async start(controller) {
+            controller.enqueue({ type: 'text-delta', index: 0 });
+            if (idleMs === undefined) {
+              return;
+            }
+            await sleep(idleMs);
+            controller.enqueue({ type: 'text-delta', index: 1 });
+            controller.close();
+          },
+        }),
+      }),
+      responseType: 'stream' as const,
+      streamFormat,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return app;
+  };
+
+  const request = () => new Request('http://localhost/agents/a1/stream', { method: 'POST' });
+
+  test('idle streams receive heartbeats in their own format', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom('sse' as const, 'stream' as const), async (format) => {
+        const app = await createApp(format, HEARTBEAT_MS * 5);
+        const text = await (await app.handle(request())).text();
+
+        if (format === 'sse') {
+          const [first, ...rest] = text.split('\n\n').filter(Boolean);
+          expect(first).toStartWith('id: ');
+          expect(rest.slice(0, -2).length).toBeGreaterThan(0);
+          expect(rest.slice(0, -2).every((block) => block === ': ping')).toBe(true);
+          expect(rest.slice(-2)[0]).toContain('"index":1');
+          expect(rest.slice(-1)[0]).toBe('data: [DONE]');
+        } else {
+          const records = text.split('\x1E').slice(0, -1);
+          expect(JSON.parse(records[0]!).index).toBe(0);
+          expect(records.slice(1, -1).length).toBeGreaterThan(0);
+          expect(records.slice(1, -1).every((record) => record === '')).toBe(true);
+          expect(JSON.parse(records[records.length - 1]!).index).toBe(1);
+        }
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('busy streams receive no heartbeats', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom('sse' as const, 'stream' as const), async (format) => {
+        const app = await createApp(format, 0);
+        const text = await (await app.handle(request())).text();
+
+        expect(text).not.toContain(': ping');
+        expect(text).not.toContain('\x1E\x1E');
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('heartbeats stop when the stream ends or the client disconnects', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.boolean(), async (disconnect) => {
+        const app = await createApp('sse', disconnect ? undefined : 0);
+        const response = await app.handle(request());
+        const reader = response.body!.getReader();
+
+        if (disconnect) {
+          await reader.read();
+          await reader.cancel();
+        } else {
+          while (!(await reader.read()).done) {
+            // Drain the stream
+          }
+        }
+
+        // Any heartbeat still scheduled would fire within this window
+        const pending: number[] = [];
+        const originalEnqueue = ReadableStreamDefaultController.prototype.enqueue;
+        ReadableStreamDefaultController.prototype.enqueue = function (chunk) {
+          pending.push(1);
+          return originalEnqueue.call(this, chunk);
+        };
+        try {
+          await sleep(HEARTBEAT_MS * 3);
+        } finally {
+          ReadableStreamDefaultController.prototype.enqueue = originalEnqueue;
+        }
+
+        expect(pending).toEqual([]);
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+});
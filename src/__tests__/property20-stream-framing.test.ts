@@ -0,0 +1,198 @@
+/**
+ * Property-based tests for ElysiaServer - Property 20: Stream Framing
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { StreamFraming, StreamOptions } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 20: Stream Framing
+ *
+ * For any non-SSE stream:
+ * - `ndjson` SHALL send `application/x-ndjson` with one record per line
+ * - `json-seq` SHALL send `application/json-seq` with RS-prefixed, LF-terminated records
+ * - `legacy` SHALL send `text/plain` with RS-terminated records
+ * - The framing SHALL come from `Accept` (when negotiation is on), then `routeFraming`, then `framing`
+ */
+describe('Property 20: Stream Framing', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const CONTENT_TYPES: Record<StreamFraming, string> = {
+    ndjson: 'application/x-ndjson',
+    'json-seq': 'application/json-seq',
+    legacy: 'text/plain',
+  };
+
+  /**
+   * Splits a stream body into JSON records according to its framing.
+   */
+  const parseRecords = (framing: StreamFraming, text: string): unknown[] => {
+    switch (framing) {
+      case 'ndjson':
+        expect(text.endsWith('\n')).toBe(true);
+        return text
+          .slice(0, -1)
+          .split('\n')
+          .map((line) => JSON.parse(line));
+      case 'json-seq':
+        expect(text.startsWith('\x1E')).toBe(true);
+        return text
+          .slice(1)
+          .split('\x1E')
+          .map((record) => {
+            expect(record.endsWith('\n')).toBe(true);
+            return JSON.parse(record);
+          });
+      case 'legacy':
+        expect(text.endsWith('\x1E')).toBe(true);
+        return text
+          .slice(0, -1)
+          .split('\x1E')
+          .map((record) => JSON.parse(record));
+    }
+  };
+
+  const createApp = async (streamOptions: StreamOptions, chunks: unknown[]) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact: false, ...streamOptions },
+    });
+    server.registerContextMiddleware();
+
+    const route = {
+      path: '/workflows/:workflowId/stream',
+      method: 'POST' as const,
+      handler: async () => ({
+        fullStream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(chunk);
+            }
+            controller.close();
+          },
+        }),
+      }),
+      responseType: 'stream' as const,
+      streamFormat: 'stream' as const,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, { prefix: '/api' });
+
+    return app;
+  };
+
+  const request = (accept?: string) =>
+    new Request('http://localhost/api/workflows/w1/stream', {
+      method: 'POST',
+      headers: accept ? { Accept: accept } : {},
+    });
+
+  const framingArb = fc.constantFrom<StreamFraming>('ndjson', 'json-seq', 'legacy');
+
+  // Strings with newlines and separators check that records stay intact
+  const chunkArb = fc.record({
+    type: fc.constantFrom('text-delta', 'step-finish'),
+    text: fc.oneof(
+      fc.string({ maxLength: 20 }),
+      fc.constantFrom('line\nbreak', 'record\x1Eseparator', '\r\n')
+    ),
+  });
+
+  test('each framing sends its content type and delimiters', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        framingArb,
+        fc.array(chunkArb, { minLength: 1, maxLength: 10 }),
+        async (framing, chunks) => {
+          const app = await createApp({ framing }, chunks);
+          const response = await app.handle(request());
+
+          expect(response.headers.get('Content-Type')).toBe(CONTENT_TYPES[framing]);
+          expect(parseRecords(framing, await response.text())).toEqual(chunks);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('framing comes from Accept, then the route, then the server default', async () => {
+    const acceptArb = fc.constantFrom<StreamFraming | undefined>('ndjson', 'json-seq', undefined);
+
+    await fc.assert(
+      fc.asyncProperty(
+        framingArb,
+        fc.option(framingArb, { nil: undefined }),
+        acceptArb,
+        fc.boolean(),
+        async (framing, routeFraming, accepted, negotiateFraming) => {
+          const app = await createApp(
+            {
+              framing,
+              negotiateFraming,
+              routeFraming: routeFraming
+                ? new Map([['POST:/api/workflows/:workflowId/stream', routeFraming]])
+                : undefined,
+            },
+            [{ type: 'text-delta', text: 'hello' }]
+          );
+
+          const accept = accepted ? `text/html;q=0.9, ${CONTENT_TYPES[accepted]}` : '*/*';
+          const response = await app.handle(request(accept));
+
+          const expected = (negotiateFraming ? accepted : undefined) ?? routeFraming ?? framing;
+          expect(response.headers.get('Content-Type')).toBe(CONTENT_TYPES[expected]);
+          expect(response.headers.get('Vary')).toBe(negotiateFraming ? 'Accept' : null);
+          expect(parseRecords(expected, await response.text())).toEqual([
+            { type: 'text-delta', text: 'hello' },
+          ]);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('quality values decide between accepted framings', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 9 }),
+        fc.integer({ min: 0, max: 9 }),
+        async (ndjsonQ, jsonSeqQ) => {
+          fc.pre(ndjsonQ !== jsonSeqQ);
+          const app = await createApp({}, [{ type: 'finish' }]);
+
+          const response = await app.handle(
+            request(`application/x-ndjson;q=0.${ndjsonQ}, application/json-seq;q=0.${jsonSeqQ}`)
+          );
+          await response.text();
+
+          expect(response.headers.get('Content-Type')).toBe(
+            ndjsonQ > jsonSeqQ ? CONTENT_TYPES.ndjson : CONTENT_TYPES['json-seq']
+          );
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Property-based tests for ElysiaServer - Property 21: Stream Content Negotiation
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { AggregatedStreamResult } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 21: Stream Content Negotiation
+ *
+ * For any `stream` route with `negotiateFormat` enabled:
+ * - `text/event-stream` SHALL give SSE and `application/x-ndjson` SHALL give ndjson,
+ *   whatever the route's `streamFormat`
+ * - `application/json` SHALL consume the stream and return the aggregated text,
+ *   tool calls, tool results, usage and finish reason
+ * - Requests without a supported type, and servers without `negotiateFormat`,
+ *   SHALL get the route's `streamFormat`
+ */
+describe('Property 21: Stream Content Negotiation', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const createApp = async (
+    chunks: unknown[],
+    streamFormat: 'sse' | 'stream',
+    negotiateFormat = true
+  ) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact: false, negotiateFormat },
+    });
+    server.registerContextMiddleware();
+
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async () => ({
+        fullStream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(chunk);
+            }
+            controller.close();
+          },
+        }),
+      }),
+      responseType: 'stream' as const,
+      streamFormat,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return app;
+  };
+
+  const request = (accept?: string) =>
+    new Request('http://localhost/agents/a1/stream', {
+      method: 'POST',
+      headers: accept ? { Accept: accept } : {},
+    });
+
+  const streamFormatArb = fc.constantFrom('sse' as const, 'stream' as const);
+
+  // Mastra chunks nest their fields under `payload`
+  const runArb = fc.record({
+    texts: fc.array(fc.string({ maxLength: 10 }), { maxLength: 5 }),
+    tools: fc.array(
+      fc.record({
+        toolCallId: fc.uuid(),
+        toolName: fc.constantFrom('weather', 'search'),
+        args: fc.dictionary(fc.string({ minLength: 1, maxLength: 5 }), fc.integer()),
+        result: fc.string({ maxLength: 10 }),
+      }),
+      { maxLength: 3 }
+    ),
+    usage: fc.record({ inputTokens: fc.nat(), outputTokens: fc.nat() }),
+    finishReason: fc.constantFrom('stop', 'length', 'tool-calls'),
+  });
+
+  const toChunks = (run: {
+    texts: string[];
+    tools: { toolCallId: string; toolName: string; args: unknown; result: string }[];
+    usage: unknown;
+    finishReason: string;
+  }) => [
+    { type: 'start', payload: {} },
+    ...run.tools.flatMap(({ toolCallId, toolName, args, result }) => [
+      { type: 'tool-call', payload: { toolCallId, toolName, args } },
+      { type: 'tool-result', payload: { toolCallId, toolName, result } },
+    ]),
+    ...run.texts.map((text) => ({ type: 'text-delta', payload: { id: '1', text } })),
+    {
+      type: 'finish',
+      payload: { stepResult: { reason: run.finishReason }, output: { usage: run.usage } },
+    },
+  ];
+
+  test('Accept selects SSE or ndjson regardless of the route format', async () => {
+    await fc.assert(
+      fc.asyncProperty(streamFormatArb, fc.boolean(), async (streamFormat, wantsSSE) => {
+        const app = await createApp(
+          [{ type: 'text-delta', payload: { text: 'hi' } }],
+          streamFormat
+        );
+
+        const response = await app.handle(
+          request(wantsSSE ? 'text/event-stream' : 'application/x-ndjson')
+        );
+        const text = await response.text();
+
+        expect(response.headers.get('Vary')).toBe('Accept');
+        if (wantsSSE) {
+          expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+          expect(text.endsWith('data: [DONE]\n\n')).toBe(true);
+        } else {
+          expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+          expect(JSON.parse(text.trim())).toEqual({ type: 'text-delta', payload: { text: 'hi' } });
+        }
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('application/json returns the aggregated result', async () => {
+    await fc.assert(
+      fc.asyncProperty(streamFormatArb, runArb, async (streamFormat, run) => {
+        const app = await createApp(toChunks(run), streamFormat);
+
+        const response = await app.handle(request('application/json'));
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toStartWith('application/json');
+        expect(response.headers.get('Vary')).toBe('Accept');
+
+        const body = (await response.json()) as AggregatedStreamResult;
+        expect(body).toEqual({
+          text: run.texts.join(''),
+          toolCalls: run.tools.map(({ toolCallId, toolName, args }) => ({
+            toolCallId,
+            toolName,
+            args,
+          })),
+          toolResults: run.tools.map(({ toolCallId, toolName, result }) => ({
+            toolCallId,
+            toolName,
+            result,
+          })),
+          usage: run.usage,
+          finishReason: run.finishReason,
+        });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('the route format applies without a supported type or without negotiation', async () => {
+    const acceptArb = fc.constantFrom(undefined, '*/*', 'text/html', 'application/json');
+
+    await fc.assert(
+      fc.asyncProperty(
+        streamFormatArb,
+        acceptArb,
+        fc.boolean(),
+        async (streamFormat, accept, negotiateFormat) => {
+          fc.pre(!(negotiateFormat && accept === 'application/json'));
+          const app = await createApp([{ type: 'finish' }], streamFormat, negotiateFormat);
+
+          const response = await app.handle(request(accept));
+          await response.text();
+
+          expect(response.headers.get('Content-Type')).toBe(
+            streamFormat === 'sse' ? 'text/event-stream' : 'text/plain'
+          );
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,382 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 22: Response Compression
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import {
+  brotliDecompressSync,
+  constants,
+  createBrotliCompress,
+  createDeflate,
+  createGzip,
+  gunzipSync,
+  inflateSync,
+} from 'node:zlib';
+import { ElysiaServer } from '../server';
+import { compressStream } from '../compression';
+import type { CompressionEncoding, CompressionOptions } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 22: Response Compression
+ *
+ * For any Mastra route with `compression` enabled:
+ * - JSON bodies at or above the threshold SHALL be compressed with the preferred accepted coding
+ * - Browser-style `Accept-Encoding` headers SHALL get gzip unless brotli is configured first
+ * - Bodies below the threshold, clients without a matching coding and opted-out routes SHALL get identity
+ * - Responses without a length, such as problem details, SHALL be held to the threshold too
+ * - Streams SHALL be compressed and flushed per chunk, so events arrive before the stream ends
+ * - Eligible responses SHALL carry `Vary: Accept-Encoding`
+ * - Compressor errors SHALL error the compressed stream and cancel its source
+ */
+describe('Property 22: Response Compression', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  /**
+   * Decompresses a complete body, or the flushed prefix of a stream.
+   */
+  const decompress = (bytes: Uint8Array, encoding: CompressionEncoding, partial = false) => {
+    switch (encoding) {
+      case 'br':
+        return brotliDecompressSync(
+          bytes,
+          partial ? { finishFlush: constants.BROTLI_OPERATION_FLUSH } : {}
+        ).toString();
+      case 'gzip':
+        return gunzipSync(bytes, partial ? { finishFlush: constants.Z_SYNC_FLUSH } : {}).toString();
+      case 'deflate':
+        return inflateSync(
+          bytes,
+          partial ? { finishFlush: constants.Z_SYNC_FLUSH } : {}
+        ).toString();
+    }
+  };
+
+  const encodingArb = fc.constantFrom<CompressionEncoding>('br', 'gzip', 'deflate');
+
+  const createJsonApp = async (compression: boolean | CompressionOptions, items: string[]) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({ app, mastra: createMockMastra(), compression });
+    server.registerContextMiddleware();
+
+    const route = {
+      path: '/memory/threads',
+      method: 'GET' as const,
+      handler: async () => ({ threads: items }),
+      responseType: 'json' as const,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, { prefix: '/api' });
+
+    return app;
+  };
+
+  test('JSON bodies are compressed above the threshold', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        encodingArb,
+        fc.array(fc.string({ minLength: 1, maxLength: 50 }), { maxLength: 100 }),
+        fc.integer({ min: 0, max: 2000 }),
+        async (encoding, items, threshold) => {
+          const app = await createJsonApp({ threshold }, items);
+          const expected = JSON.stringify({ threads: items });
+
+          const response = await app.handle(
+            new Request('http://localhost/api/memory/threads', {
+              headers: { 'Accept-Encoding': encoding },
+            })
+          );
+          const bytes = new Uint8Array(await response.arrayBuffer());
+
+          expect(response.status).toBe(200);
+          if (new TextEncoder().encode(expected).byteLength >= threshold) {
+            expect(response.headers.get('Content-Encoding')).toBe(encoding);
+            expect(response.headers.get('Content-Type')).toStartWith('application/json');
+            expect(response.headers.get('Vary')).toContain('Accept-Encoding');
+            expect(decompress(bytes, encoding)).toBe(expected);
+          } else {
+            expect(response.headers.get('Content-Encoding')).toBeNull();
+            expect(new TextDecoder().decode(bytes)).toBe(expected);
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('the preferred accepted coding is used, ties going to the server order', async () => {
+    const headerArb = fc.constantFrom(
+      ['gzip, deflate, br', 'gzip'],
+      ['gzip, deflate, br, zstd', 'gzip'],
+      ['gzip;q=1, br;q=0.5', 'gzip'],
+      ['gzip;q=0.8, br', 'br'],
+      ['deflate', 'deflate'],
+      ['*', 'gzip'],
+      ['br;q=0, *;q=0.5', 'gzip'],
+      ['identity', null],
+      ['', null]
+    );
+
+    await fc.assert(
+      fc.asyncProperty(headerArb, async ([acceptEncoding, expected]) => {
+        const app = await createJsonApp({ threshold: 0 }, ['thread']);
+
+        const response = await app.handle(
+          new Request('http://localhost/api/memory/threads', {
+            headers: acceptEncoding ? { 'Accept-Encoding': acceptEncoding } : {},
+          })
+        );
+        await response.arrayBuffer();
+
+        expect(response.headers.get('Content-Encoding')).toBe(expected);
+        expect(response.headers.get('Vary')).toContain('Accept-Encoding');
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('browsers get gzip by default, and brotli when it is configured first', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom('gzip, deflate, br', 'gzip, deflate, br, zstd', 'br, gzip'),
+        fc.boolean(),
+        fc.array(fc.string({ minLength: 1, maxLength: 50 }), { maxLength: 100 }),
+        async (acceptEncoding, brotliFirst, items) => {
+          const app = await createJsonApp(
+            brotliFirst ? { threshold: 0, encodings: ['br', 'gzip'] } : { threshold: 0 },
+            items
+          );
+
+          const response = await app.handle(
+            new Request('http://localhost/api/memory/threads', {
+              headers: { 'Accept-Encoding': acceptEncoding },
+            })
+          );
+          const encoding = brotliFirst ? 'br' : 'gzip';
+          expect(response.headers.get('Content-Encoding')).toBe(encoding);
+          expect(decompress(new Uint8Array(await response.arrayBuffer()), encoding)).toBe(
+            JSON.stringify({ threads: items })
+          );
+
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('error responses are held to the threshold', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        encodingArb,
+        fc.string({ minLength: 1, maxLength: 200 }),
+        fc.integer({ min: 0, max: 1000 }),
+        async (encoding, message, threshold) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            compression: { threshold },
+          });
+          server.registerContextMiddleware();
+          const route = {
+            path: '/memory/threads/:threadId',
+            method: 'GET' as const,
+            handler: async () => {
+              throw Object.assign(new Error(message), { status: 404 });
+            },
+            responseType: 'json' as const,
+          } as unknown as ServerRoute;
+          await server.registerRoute(app, route, {});
+
+          const response = await app.handle(
+            new Request('http://localhost/memory/threads/t1', {
+              headers: { 'Accept-Encoding': encoding },
+            })
+          );
+          const bytes = new Uint8Array(await response.arrayBuffer());
+          const compressed = response.headers.get('Content-Encoding') !== null;
+          const text = compressed ? decompress(bytes, encoding) : new TextDecoder().decode(bytes);
+
+          expect(response.status).toBe(404);
+          expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+          expect(JSON.parse(text)).toMatchObject({ status: 404, detail: message });
+          expect(compressed).toBe(new TextEncoder().encode(text).byteLength >= threshold);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('opted-out routes are not compressed', async () => {
+    await fc.assert(
+      fc.asyncProperty(encodingArb, fc.boolean(), async (encoding, enabled) => {
+        const app = await createJsonApp(
+          { threshold: 0, routes: new Map([['GET:/api/memory/*', enabled]]) },
+          ['thread']
+        );
+
+        const response = await app.handle(
+          new Request('http://localhost/api/memory/threads', {
+            headers: { 'Accept-Encoding': encoding },
+          })
+        );
+        await response.arrayBuffer();
+
+        expect(response.headers.get('Content-Encoding')).toBe(enabled ? encoding : null);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('streams are flushed per chunk', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        encodingArb,
+        fc.array(fc.string({ maxLength: 20 }), { minLength: 1, maxLength: 5 }),
+        async (encoding, texts) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            compression: true,
+            streamOptions: { redact: false },
+          });
+          server.registerContextMiddleware();
+
+          // The stream stays open until the test closes it
+          let closeStream = () => {};
+          const route = {
+            path: '/agents/:agentId/stream',
+            method: 'POST' as const,
+            handler: async () => ({
+              fullStream: new ReadableStream({
+                start(controller) {
+                  controller.enqueue({ type: 'text-delta', payload: { text: texts[0] } });
+                  closeStream = () => {
+                    for (const text of texts.slice(1)) {
+                      controller.enqueue({ type: 'text-delta', payload: { text } });
+                    }
+                    controller.close();
+                  };
+                },
+              }),
+            }),
+            responseType: 'stream' as const,
+            streamFormat: 'sse' as const,
+          } as unknown as ServerRoute;
+          await server.registerRoute(app, route, {});
+
+          const response = await app.handle(
+            new Request('http://localhost/agents/a1/stream', {
+              method: 'POST',
+              headers: { 'Accept-Encoding': encoding },
+            })
+          );
+          expect(response.headers.get('Content-Encoding')).toBe(encoding);
+          expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+          // The first event can be decompressed while the source is still open
+          const reader = response.body!.getReader();
+          const received: Uint8Array[] = [];
+          const { value } = await reader.read();
+          received.push(value!);
+          const firstEvent = decompress(value!, encoding, true);
+          expect(firstEvent).toStartWith('id: ');
+          expect(JSON.parse(firstEvent.split('data: ')[1]!).payload.text).toBe(texts[0]);
+
+          closeStream();
+          while (true) {
+            const { done, value: chunk } = await reader.read();
+            if (done) {
+              break;
+            }
+            received.push(chunk);
+          }
+
+          const body = new Uint8Array(Buffer.concat(received));
+          const text = decompress(body, encoding);
+          const events = text.split('\n\n').filter((block) => block.startsWith('id: '));
+          expect(events.map((event) => JSON.parse(event.split('data: ')[1]!).payload.text)).toEqual(
+            texts
+          );
+          expect(text.endsWith('data: [DONE]\n\n')).toBe(true);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('compressor errors error the stream and cancel the source', async () => {
+    const compressors = { br: createBrotliCompress, gzip: createGzip, deflate: createDeflate };
+
+    await fc.assert(
+      fc.asyncProperty(encodingArb, fc.integer({ min: 0, max: 3 }), async (encoding, failAt) => {
+        // Fails the compressor's write after `failAt` successful ones
+        const prototype = Object.getPrototypeOf(compressors[encoding]()) as {
+          _transform(chunk: unknown, enc: string, callback: (error?: Error) => void): void;
+        };
+        const transform = prototype._transform;
+        let writes = 0;
+        prototype._transform = function (chunk, enc, callback) {
+          if (writes++ === failAt * 2) {
+            callback(new Error('compressor failed'));
+            return;
+          }
+          transform.call(this, chunk, enc, callback);
+        };
+
+        let cancelled = false;
+        try {
+          const source = new ReadableStream<Uint8Array>({
+            pull(controller) {
+              controller.enqueue(new TextEncoder().encode('data: event\n\n'));
+            },
+            cancel() {
+              cancelled = true;
+            },
+          });
+
+          const reader = compressStream(source, encoding).getReader();
+          const error = await (async () => {
+            for (let i = 0; i < 10; i++) {
+              await reader.read();
+            }
+          })().catch((error: unknown) => error);
+
+          expect(error).toBeInstanceOf(Error);
+          expect((error as Error).message).toBe('compressor failed');
+          expect(cancelled).toBe(true);
+        } finally {
+          prototype._transform = transform;
+        }
+
+        return true;
+      }),
+      { numRuns: 30 }
+    );
+  });
+});
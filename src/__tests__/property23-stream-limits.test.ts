@@ -0,0 +1,193 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 23: Stream Limits
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { StreamErrorEvent, StreamOptions } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 23: Stream Limits
+ *
+ * For any stream with `maxBufferedBytes`, `maxDurationMs` or `idleTimeoutMs` configured:
+ * - A client that stops reading SHALL get an `error` event once the buffer limit is reached
+ * - Streams running past `maxDurationMs`, or idle for `idleTimeoutMs`, SHALL end with an `error` event
+ * - Ending a stream on a limit SHALL cancel the source and abort the handler's `abortSignal`
+ * - Streams that stay within their limits SHALL complete normally
+ */
+describe('Property 23: Stream Limits', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Registers a stream route whose source emits a chunk every `intervalMs`
+   * (or as fast as it is read with 0), `count` times, then closes. The source records whether it was cancelled
+   * and the handler exposes its abortSignal.
+   */
+  const createApp = async (
+    streamOptions: StreamOptions,
+    source: { count: number; intervalMs: number; text?: string },
+    streamFormat: 'sse' | 'stream' = 'sse'
+  ) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact: false, ...streamOptions },
+    });
+    server.registerContextMiddleware();
+
+    const state = { cancelled: false, signal: undefined as AbortSignal | undefined };
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+        state.signal = abortSignal;
+        let index = 0;
+        return {
+          fullStream: new ReadableStream({
+            async pull(controller) {
+              if (index >= source.count) {
+                controller.close();
+                return;
+              }
+              if (index > 0 && source.intervalMs > 0) {
+                await sleep(source.intervalMs);
+              }
+              controller.enqueue({
+                type: 'text-delta',
+                payload: { text: source.text ?? 'x', index: index++ },
+              });
+            },
+            cancel() {
+              state.cancelled = true;
+            },
+          }),
+        };
+      },
+      responseType: 'stream' as const,
+      streamFormat,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return { app, state };
+  };
+
+  const request = () => new Request('http://localhost/agents/a1/stream', { method: 'POST' });
+
+  const lastSseError = (text: string): StreamErrorEvent | undefined => {
+    const block = text
+      .split('\n\n')
+      .reverse()
+      .find((entry) => entry.startsWith('event: error'));
+    return block ? JSON.parse(block.split('data: ')[1]!) : undefined;
+  };
+
+  test('a client that stops reading is cut off at the buffer limit', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 64, max: 2048 }),
+        fc.constantFrom('sse' as const, 'stream' as const),
+        async (maxBufferedBytes, streamFormat) => {
+          const { app, state } = await createApp(
+            { maxBufferedBytes, framing: 'ndjson' },
+            { count: 10_000, intervalMs: 0, text: 'a'.repeat(32) },
+            streamFormat
+          );
+
+          const response = await app.handle(request());
+          // Let the stream fill its buffer before reading anything
+          await sleep(20);
+          const text = await response.text();
+
+          if (streamFormat === 'sse') {
+            const error = lastSseError(text);
+            expect(error?.code).toBe('stream_limit_exceeded');
+            expect(error?.reason).toBe('max_buffered_bytes');
+            expect(text).not.toContain('data: [DONE]');
+          } else {
+            const records = text
+              .trim()
+              .split('\n')
+              .map((line) => JSON.parse(line));
+            expect(records.at(-1)).toMatchObject({
+              type: 'error',
+              error: { code: 'stream_limit_exceeded', reason: 'max_buffered_bytes' },
+            });
+          }
+          expect(state.cancelled).toBe(true);
+          expect(state.signal?.aborted).toBe(true);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('streams end after maxDurationMs or idleTimeoutMs', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom('max_duration', 'idle_timeout'), async (reason) => {
+        const { app, state } = await createApp(
+          reason === 'max_duration' ? { maxDurationMs: 30 } : { idleTimeoutMs: 30 },
+          // The duration case keeps producing chunks; the idle case stalls after the first
+          reason === 'max_duration'
+            ? { count: 10_000, intervalMs: 5 }
+            : { count: 2, intervalMs: 500 }
+        );
+
+        const started = Date.now();
+        const response = await app.handle(request());
+        const text = await response.text();
+
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(lastSseError(text)?.reason).toBe(reason);
+        expect(state.signal?.aborted).toBe(true);
+        if (reason === 'max_duration') {
+          expect(state.cancelled).toBe(true);
+        }
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('streams within their limits complete normally', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 20 }), async (count) => {
+        const { app, state } = await createApp(
+          { maxBufferedBytes: 64 * 1024, maxDurationMs: 5000, idleTimeoutMs: 1000 },
+          { count, intervalMs: 1 }
+        );
+
+        const response = await app.handle(request());
+        const text = await response.text();
+
+        expect(lastSseError(text)).toBeUndefined();
+        expect(text.endsWith('data: [DONE]\n\n')).toBe(true);
+        expect(text.split('\n\n').filter((block) => block.startsWith('id: '))).toHaveLength(count);
+        expect(state.signal?.aborted).toBe(false);
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 24: Stream Error Events
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { StreamErrorEvent } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 24: Stream Error Events
+ *
+ * For any stream whose `fullStream` fails:
+ * - The chunks produced before the failure SHALL be delivered
+ * - An SSE stream SHALL end with an `error` event, and an ndjson stream with an error record,
+ *   carrying only `code`, `message` and `requestId`
+ * - The stream SHALL close normally instead of erroring
+ * - With `redact`, messages of errors without a 4xx status SHALL be hidden
+ */
+describe('Property 24: Stream Error Events', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const HIDDEN_MESSAGE = 'An unexpected error occurred';
+
+  /**
+   * Registers a stream route whose source emits `texts`, then fails with `error`.
+   */
+  const createApp = async (
+    texts: string[],
+    error: unknown,
+    streamFormat: 'sse' | 'stream',
+    redact: boolean
+  ) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact, framing: 'ndjson' },
+    });
+    server.registerContextMiddleware();
+
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async () => {
+        let index = 0;
+        return {
+          fullStream: new ReadableStream({
+            pull(controller) {
+              if (index < texts.length) {
+                controller.enqueue({ type: 'text-delta', payload: { text: texts[index++] } });
+              } else {
+                controller.error(error);
+              }
+            },
+          }),
+        };
+      },
+      responseType: 'stream' as const,
+      streamFormat,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return app;
+  };
+
+  const request = () =>
+    new Request('http://localhost/agents/a1/stream', {
+      method: 'POST',
+      headers: { 'X-Request-Id': 'req-1' },
+    });
+
+  /**
+   * Returns the text chunks and the terminal error of a response body.
+   */
+  const parseBody = (text: string, streamFormat: 'sse' | 'stream') => {
+    if (streamFormat === 'sse') {
+      const blocks = text.split('\n\n').filter(Boolean);
+      const errorBlock = blocks.find((block) => block.startsWith('event: error'));
+      return {
+        texts: blocks
+          .filter((block) => block.startsWith('id: '))
+          .map((block) => JSON.parse(block.split('data: ')[1]!).payload.text as string),
+        error: errorBlock
+          ? (JSON.parse(errorBlock.split('data: ')[1]!) as StreamErrorEvent)
+          : undefined,
+        last: blocks.at(-1),
+      };
+    }
+
+    const records = text
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    const last = records.at(-1);
+    return {
+      texts: records
+        .filter((record) => record.type === 'text-delta')
+        .map((record) => record.payload.text as string),
+      error: last?.type === 'error' ? (last.error as StreamErrorEvent) : undefined,
+      last: JSON.stringify(last),
+    };
+  };
+
+  const errorArb = fc.record({
+    message: fc.string({ minLength: 1, maxLength: 30 }),
+    status: fc.option(fc.constantFrom(400, 404, 429, 500, 503), { nil: undefined }),
+    code: fc.option(fc.constantFrom('rate_limited', 'model_overloaded'), { nil: undefined }),
+  });
+
+  test('failing streams end with a sanitized error event and close normally', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.string({ maxLength: 10 }), { maxLength: 5 }),
+        errorArb,
+        fc.constantFrom('sse' as const, 'stream' as const),
+        fc.boolean(),
+        async (texts, { message, status, code }, streamFormat, redact) => {
+          const error = Object.assign(new Error(message), {
+            status,
+            code,
+            requestBodyValues: { apiKey: 'sk-secret' },
+          });
+          const app = await createApp(texts, error, streamFormat, redact);
+
+          const response = await app.handle(request());
+          // Reading to the end does not throw
+          const body = parseBody(await response.text(), streamFormat);
+
+          expect(body.texts).toEqual(texts);
+          expect(body.error).toEqual({
+            code: code ?? 'stream_error',
+            message: !redact || (status !== undefined && status < 500) ? message : HIDDEN_MESSAGE,
+            requestId: 'req-1',
+          });
+          expect(body.last).not.toContain('sk-secret');
+          if (streamFormat === 'sse') {
+            expect(body.last).toStartWith('event: error');
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('non-Error failures get a generic event', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(undefined, null, 'boom', 42),
+        fc.constantFrom('sse' as const, 'stream' as const),
+        async (error, streamFormat) => {
+          const app = await createApp([], error, streamFormat, true);
+
+          const response = await app.handle(request());
+          const body = parseBody(await response.text(), streamFormat);
+
+          expect(body.error).toEqual({
+            code: 'stream_error',
+            message: HIDDEN_MESSAGE,
+            requestId: 'req-1',
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Property-based tests for ElysiaServer - Property 26: Stream Chunk Filtering
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { ChunkFilter, StreamOptions } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 26: Stream Chunk Filtering
+ *
+ * For any stream with chunk filters:
+ * - Only chunks whose type is in `include` and not in `exclude` SHALL be sent
+ * - A route's filter SHALL replace `chunkFilter`, and the query filter SHALL narrow it further
+ * - The text projection SHALL send only `text-delta` chunks, as `{ type, text }`
+ * - The query parameter SHALL NOT reach the handler, and SHALL be ignored when disabled
+ * - Mastra's `error` and `abort` chunks SHALL always be sent whole, whatever the filters
+ */
+describe('Property 26: Stream Chunk Filtering', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const CHUNK_TYPES = ['start', 'step-start', 'reasoning', 'text-delta', 'tool-call', 'finish'];
+
+  const chunkArb = fc
+    .tuple(fc.constantFrom(...CHUNK_TYPES), fc.string({ maxLength: 10 }))
+    .map(([type, text]) => ({ type, payload: { text } }));
+
+  const typesArb = fc.subarray(CHUNK_TYPES);
+
+  /**
+   * Registers an ndjson stream route emitting `chunks`, recording the params
+   * its handler receives.
+   */
+  const createApp = async (chunks: unknown[], streamOptions: StreamOptions) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact: false, framing: 'ndjson', ...streamOptions },
+    });
+    server.registerContextMiddleware();
+
+    const handlerParams: Record<string, unknown>[] = [];
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async (params: Record<string, unknown>) => {
+        handlerParams.push(params);
+        return {
+          fullStream: new ReadableStream({
+            start(controller) {
+              for (const chunk of chunks) {
+                controller.enqueue(chunk);
+              }
+              controller.close();
+            },
+          }),
+        };
+      },
+      responseType: 'stream' as const,
+      streamFormat: 'stream' as const,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return { app, handlerParams };
+  };
+
+  const readRecords = async (app: Elysia, query = '') => {
+    const response = await app.handle(
+      new Request(`http://localhost/agents/a1/stream${query}`, { method: 'POST' })
+    );
+    const text = await response.text();
+    return text
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  };
+
+  const passes = (type: string, filter: ChunkFilter) =>
+    (!filter.include || filter.include.includes(type)) && !filter.exclude?.includes(type);
+
+  test('include and exclude lists select the chunks sent', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { maxLength: 20 }),
+        fc.option(typesArb, { nil: undefined }),
+        fc.option(typesArb, { nil: undefined }),
+        async (chunks, include, exclude) => {
+          const chunkFilter = { include, exclude };
+          const { app } = await createApp(chunks, { chunkFilter });
+
+          const records = await readRecords(app);
+          expect(records).toEqual(chunks.filter((chunk) => passes(chunk.type, chunkFilter)));
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('route filters replace chunkFilter and the query narrows them', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { maxLength: 20 }),
+        typesArb,
+        typesArb,
+        fc.constantFrom(...CHUNK_TYPES),
+        async (chunks, globalTypes, routeTypes, excluded) => {
+          const routeFilter = { include: routeTypes };
+          const { app, handlerParams } = await createApp(chunks, {
+            chunkFilter: { include: globalTypes },
+            routeChunkFilters: new Map([['POST:/agents/*', routeFilter]]),
+          });
+
+          const records = await readRecords(app, `?chunks=-${excluded}`);
+          expect(records).toEqual(
+            chunks.filter((chunk) => passes(chunk.type, routeFilter) && chunk.type !== excluded)
+          );
+          expect(handlerParams[0]).not.toHaveProperty('chunks');
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('the text projection sends only text deltas', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { maxLength: 20 }),
+        fc.boolean(),
+        async (chunks, fromQuery) => {
+          const { app } = await createApp(
+            chunks,
+            fromQuery ? {} : { chunkFilter: { projection: 'text' } }
+          );
+
+          const records = await readRecords(app, fromQuery ? '?chunks=text' : '');
+          expect(records).toEqual(
+            chunks
+              .filter((chunk) => chunk.type === 'text-delta')
+              .map((chunk) => ({ type: 'text-delta', text: chunk.payload.text }))
+          );
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('error and abort chunks are always sent', async () => {
+    const terminalArb = fc.constantFrom(
+      { type: 'error', payload: { error: { message: 'model exploded' } } },
+      { type: 'abort', payload: {} }
+    );
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { maxLength: 10 }),
+        terminalArb,
+        fc.constantFrom('?chunks=text', '?chunks=text-delta', '?chunks=-error,-abort', ''),
+        fc.option(typesArb, { nil: undefined }),
+        async (chunks, terminal, query, include) => {
+          const { app } = await createApp([...chunks, terminal], {
+            chunkFilter: { include },
+          });
+
+          const records = await readRecords(app, query);
+          expect(records.at(-1)).toEqual(terminal);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('a custom or disabled query parameter', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { maxLength: 20 }),
+        fc.constantFrom('types', false as const),
+        async (chunks, chunkFilterParam) => {
+          const { app, handlerParams } = await createApp(chunks, { chunkFilterParam });
+
+          const records = await readRecords(app, '?chunks=text&types=text-delta');
+          if (chunkFilterParam) {
+            expect(records).toEqual(chunks.filter((chunk) => chunk.type === 'text-delta'));
+            expect(handlerParams[0]).not.toHaveProperty('types');
+          } else {
+            expect(records).toEqual(chunks);
+            expect(handlerParams[0]).toHaveProperty('types', 'text-delta');
+          }
+          // Only the configured parameter is reserved
+          expect(handlerParams[0]).toHaveProperty('chunks', 'text');
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,231 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 27: Stream Hooks
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { ElysiaServerOptions, StreamHookContext, StreamSummary } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 27: Stream Hooks
+ *
+ * For any `stream` route with `onStreamChunk` or `onStreamComplete` configured:
+ * - `onStreamChunk` SHALL receive every chunk in order, including chunks the client filtered out
+ * - `onStreamComplete` SHALL receive the aggregated summary and outcome once, when the run ends
+ * - Both SHALL run for SSE, ndjson and aggregated JSON responses alike
+ * - Hook failures SHALL NOT affect the client's response
+ */
+describe('Property 27: Stream Hooks', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const chunkArb = fc.oneof(
+    fc.string({ maxLength: 10 }).map((text) => ({ type: 'text-delta', payload: { text } })),
+    fc.constant({ type: 'step-start', payload: {} }),
+    fc.constant({ type: 'reasoning', payload: { text: 'thinking' } })
+  );
+
+  const runArb = fc.record({
+    chunks: fc.array(chunkArb, { maxLength: 10 }),
+    usage: fc.record({ inputTokens: fc.nat(), outputTokens: fc.nat() }),
+  });
+
+  /**
+   * Registers a stream route emitting `chunks`, then a finish chunk with
+   * `usage`, or failing with `error`. A source with `keepOpen` never ends.
+   */
+  const createApp = async (
+    options: Partial<ElysiaServerOptions>,
+    source: { chunks: unknown[]; usage?: unknown; error?: Error; keepOpen?: boolean },
+    streamFormat: 'sse' | 'stream' = 'sse'
+  ) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      ...options,
+      streamOptions: { redact: false, framing: 'ndjson', ...options.streamOptions },
+    });
+    server.registerContextMiddleware();
+
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async () => {
+        let index = 0;
+        return {
+          fullStream: new ReadableStream({
+            pull(controller) {
+              if (index < source.chunks.length) {
+                controller.enqueue(source.chunks[index++]);
+              } else if (source.error) {
+                controller.error(source.error);
+              } else if (!source.keepOpen) {
+                controller.enqueue({
+                  type: 'finish',
+                  payload: { output: { usage: source.usage } },
+                });
+                controller.close();
+              }
+            },
+          }),
+        };
+      },
+      responseType: 'stream' as const,
+      streamFormat,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return app;
+  };
+
+  const request = (query = '', headers: Record<string, string> = {}) =>
+    new Request(`http://localhost/agents/a1/stream${query}`, {
+      method: 'POST',
+      headers: { 'X-Request-Id': 'req-1', ...headers },
+    });
+
+  const expectedText = (chunks: { type: string; payload: { text?: string } }[]) =>
+    chunks
+      .filter((chunk) => chunk.type === 'text-delta')
+      .map((chunk) => chunk.payload.text)
+      .join('');
+
+  test('hooks receive every chunk and the summary, whatever the response format', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        runArb,
+        fc.constantFrom('sse', 'ndjson', 'json', 'filtered'),
+        async ({ chunks, usage }, format) => {
+          const seenChunks: unknown[] = [];
+          const summaries: { summary: StreamSummary; context: StreamHookContext }[] = [];
+          const app = await createApp(
+            {
+              streamOptions: { negotiateFormat: true },
+              onStreamChunk: (chunk) => {
+                seenChunks.push(chunk);
+              },
+              onStreamComplete: (summary, context) => {
+                summaries.push({ summary, context });
+              },
+            },
+            { chunks, usage },
+            format === 'ndjson' ? 'stream' : 'sse'
+          );
+
+          const response = await app.handle(
+            format === 'json'
+              ? request('', { Accept: 'application/json' })
+              : request(format === 'filtered' ? '?chunks=finish' : '')
+          );
+          await response.text();
+
+          const allChunks = [...chunks, { type: 'finish', payload: { output: { usage } } }];
+          expect(seenChunks).toEqual(allChunks);
+          expect(summaries).toHaveLength(1);
+
+          const { summary, context } = summaries[0]!;
+          expect(summary).toMatchObject({
+            text: expectedText(chunks),
+            usage,
+            outcome: 'complete',
+            chunkCount: allChunks.length,
+          });
+          expect(summary.durationMs).toBeGreaterThanOrEqual(0);
+          expect(context.route.path).toBe('/agents/:agentId/stream');
+          expect(context.requestId).toBe('req-1');
+          expect(context.runId).toBeString();
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('cancelled and failed runs report their outcome', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { minLength: 1, maxLength: 5 }),
+        fc.constantFrom('cancelled' as const, 'error' as const),
+        async (chunks, outcome) => {
+          const summaries: StreamSummary[] = [];
+          const error = new Error('model failed');
+          const app = await createApp(
+            { onStreamComplete: (summary) => void summaries.push(summary) },
+            outcome === 'error' ? { chunks, error } : { chunks, keepOpen: true }
+          );
+
+          const response = await app.handle(request());
+          if (outcome === 'error') {
+            await response.text();
+          } else {
+            const reader = response.body!.getReader();
+            await reader.read();
+            await reader.cancel();
+            await sleep(5);
+          }
+
+          expect(summaries).toHaveLength(1);
+          expect(summaries[0]!.outcome).toBe(outcome);
+          if (outcome === 'error') {
+            expect(summaries[0]!.error).toBe(error);
+            expect(summaries[0]!.chunkCount).toBe(chunks.length);
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('failing hooks do not affect the response', async () => {
+    await fc.assert(
+      fc.asyncProperty(runArb, fc.boolean(), async ({ chunks, usage }, async) => {
+        const fail = () => {
+          if (async) {
+            return Promise.reject(new Error('hook failed'));
+          }
+          throw new Error('hook failed');
+        };
+        const app = await createApp(
+          {
+            onStreamChunk: fail,
+            onStreamComplete: fail,
+            logger: { error: () => {}, warn: () => {}, info: () => {} },
+          },
+          { chunks, usage },
+          'stream'
+        );
+
+        const response = await app.handle(request());
+        const records = (await response.text())
+          .split('\n')
+          .filter(Boolean)
+          .map((line) => JSON.parse(line));
+
+        expect(records).toEqual([...chunks, { type: 'finish', payload: { output: { usage } } }]);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
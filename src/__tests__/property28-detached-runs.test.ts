@@ -0,0 +1,329 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 28: Detached Runs
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { DetachOptions } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 28: Detached Runs
+ *
+ * For any `stream` route run detached by header or route default:
+ * - The response SHALL carry the run id in `X-Mastra-Run-Id`
+ * - A client disconnect SHALL NOT abort the handler's `abortSignal` nor cancel the source
+ * - `GET /runs/:runId/stream` SHALL replay every event, then follow the run to `[DONE]`,
+ *   or to its error event when the run failed
+ * - Runs not detached SHALL still be aborted on disconnect, and unknown runs SHALL get a 404
+ * - Routes set to `false` SHALL never detach, whatever the header asks
+ * - Detaching more than `maxRuns` runs at once SHALL get a 429
+ * - Only the user who started a run SHALL reattach to it
+ */
+describe('Property 28: Detached Runs', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Registers a stream route emitting `count` text deltas, one per `intervalMs`,
+   * then failing with `error` if set. The source records whether it was
+   * cancelled and the handler exposes its abortSignal.
+   */
+  const createApp = async (
+    detach: boolean | DetachOptions,
+    source: { count: number; intervalMs: number; error?: string },
+    streamFormat: 'sse' | 'stream' = 'sse',
+    withAuth = false
+  ) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      streamOptions: { redact: false, framing: 'ndjson', detach },
+      // Bearer tokens authenticate as `{ id: token }`
+      auth: withAuth ? { authenticateToken: async (token) => ({ id: token }) } : undefined,
+    });
+    server.registerContextMiddleware();
+    if (withAuth) {
+      server.registerAuthMiddleware();
+    }
+    server.registerRunStreamRoute();
+
+    const state = { cancelled: false, signal: undefined as AbortSignal | undefined };
+    const route = {
+      path: '/agents/:agentId/stream',
+      method: 'POST' as const,
+      handler: async ({ abortSignal }: { abortSignal: AbortSignal }) => {
+        state.signal = abortSignal;
+        let index = 0;
+        return {
+          fullStream: new ReadableStream({
+            async pull(controller) {
+              if (index >= source.count) {
+                if (source.error) {
+                  controller.error(new Error(source.error));
+                } else {
+                  controller.close();
+                }
+                return;
+              }
+              if (index > 0) {
+                await sleep(source.intervalMs);
+              }
+              controller.enqueue({ type: 'text-delta', payload: { text: `t${index++}` } });
+            },
+            cancel() {
+              state.cancelled = true;
+            },
+          }),
+        };
+      },
+      responseType: 'stream' as const,
+      streamFormat,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return { app, state };
+  };
+
+  /**
+   * Starts a run, reads its first chunk, then disconnects.
+   */
+  const startAndDisconnect = async (app: Elysia, headers: Record<string, string> = {}) => {
+    const disconnect = new AbortController();
+    const response = await app.handle(
+      new Request('http://localhost/agents/a1/stream', {
+        method: 'POST',
+        headers,
+        signal: disconnect.signal,
+      })
+    );
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    disconnect.abort();
+    return response;
+  };
+
+  const reattach = (app: Elysia, runId: string, headers: Record<string, string> = {}) =>
+    app.handle(new Request(`http://localhost/runs/${runId}/stream`, { headers }));
+
+  const sseTexts = (text: string) =>
+    text
+      .split('\n\n')
+      .filter((block) => block.startsWith('id: '))
+      .map((block) => JSON.parse(block.split('data: ')[1]!).payload.text);
+
+  const expectedTexts = (count: number) => Array.from({ length: count }, (_, i) => `t${i}`);
+
+  test('detached runs survive a disconnect and can be reattached to', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 8 }),
+        fc.constantFrom('header', 'route'),
+        fc.constantFrom('sse' as const, 'stream' as const),
+        async (count, optIn, streamFormat) => {
+          const { app, state } = await createApp(
+            optIn === 'header' ? true : { routes: new Map([['POST:/agents/*', true]]) },
+            { count, intervalMs: 2 },
+            streamFormat
+          );
+
+          const response = await startAndDisconnect(
+            app,
+            optIn === 'header' ? { 'X-Mastra-Detach': 'true' } : {}
+          );
+          const runId = response.headers.get('x-mastra-run-id');
+          expect(runId).toBeString();
+
+          const replay = await reattach(app, runId!);
+          expect(replay.headers.get('content-type')).toContain('text/event-stream');
+          const text = await replay.text();
+
+          expect(sseTexts(text)).toEqual(expectedTexts(count));
+          expect(text.endsWith('data: [DONE]\n\n')).toBe(true);
+          expect(state.signal?.aborted).toBe(false);
+          expect(state.cancelled).toBe(false);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('reattaching with Last-Event-ID resumes after that event', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 2, max: 8 }), async (count) => {
+        const { app } = await createApp(true, { count, intervalMs: 1 });
+
+        const response = await startAndDisconnect(app, { 'X-Mastra-Detach': '1' });
+        const runId = response.headers.get('x-mastra-run-id')!;
+
+        const text = await (await reattach(app, runId, { 'Last-Event-ID': `${runId}:1` })).text();
+        expect(sseTexts(text)).toEqual(expectedTexts(count).slice(1));
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('reattaching to a failed run ends with its error event', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 6 }),
+        fc.constantFrom('sse' as const, 'stream' as const),
+        async (count, streamFormat) => {
+          const { app } = await createApp(
+            true,
+            { count, intervalMs: 2, error: 'model exploded' },
+            streamFormat
+          );
+
+          const response = await startAndDisconnect(app, { 'X-Mastra-Detach': 'true' });
+          const runId = response.headers.get('x-mastra-run-id')!;
+
+          const replay = await reattach(app, runId);
+          expect(replay.status).toBe(200);
+          const text = await replay.text();
+          const blocks = text.split('\n\n').filter(Boolean);
+
+          expect(text).not.toContain('[DONE]');
+          expect(blocks.at(-1)).toStartWith(`id: ${runId}:${count + 1}\nevent: error\n`);
+          expect(JSON.parse(blocks.at(-1)!.split('data: ')[1]!)).toMatchObject({
+            code: 'stream_error',
+            message: 'model exploded',
+          });
+          expect(sseTexts(text.slice(0, text.lastIndexOf('id: ')))).toEqual(expectedTexts(count));
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('runs that are not detached are aborted on disconnect', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom('disabled', 'no-header', 'opt-out', 'route-disabled'),
+        async (setup) => {
+          const detach = {
+            disabled: false,
+            'no-header': true,
+            'opt-out': { routes: new Map([['POST:/agents/*', true]]) },
+            'route-disabled': { routes: new Map([['POST:/agents/*', false]]) },
+          }[setup]!;
+          const { app, state } = await createApp(detach, { count: 1000, intervalMs: 5 });
+
+          const response = await startAndDisconnect(
+            app,
+            {
+              'opt-out': { 'X-Mastra-Detach': 'false' },
+              'route-disabled': { 'X-Mastra-Detach': 'true' },
+            }[setup as string] ?? {}
+          );
+          await sleep(5);
+
+          expect(response.headers.get('x-mastra-run-id')).toBeNull();
+          expect(state.signal?.aborted).toBe(true);
+          expect(state.cancelled).toBe(true);
+
+          return true;
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  test('detaching more than maxRuns runs at once gets a 429', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 3 }), async (maxRuns) => {
+        const { app } = await createApp({ maxRuns }, { count: 3, intervalMs: 5 });
+
+        const runIds: string[] = [];
+        for (let i = 0; i < maxRuns; i++) {
+          const response = await startAndDisconnect(app, { 'X-Mastra-Detach': 'true' });
+          runIds.push(response.headers.get('x-mastra-run-id')!);
+        }
+
+        const rejected = await app.handle(
+          new Request('http://localhost/agents/a1/stream', {
+            method: 'POST',
+            headers: { 'X-Mastra-Detach': 'true' },
+          })
+        );
+        expect(rejected.status).toBe(429);
+        expect(await rejected.json()).toMatchObject({ status: 429 });
+
+        // Runs free their slot once they end
+        await (await reattach(app, runIds[0]!)).text();
+        const accepted = await startAndDisconnect(app, { 'X-Mastra-Detach': 'true' });
+        expect(accepted.headers.get('x-mastra-run-id')).toBeString();
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('only the user who started a run can reattach to it', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^u[a-z0-9]{1,8}$/),
+        fc.stringMatching(/^v[a-z0-9]{1,8}$/),
+        async (owner, other) => {
+          const { app } = await createApp(true, { count: 2, intervalMs: 1 }, 'sse', true);
+
+          const response = await startAndDisconnect(app, {
+            'X-Mastra-Detach': 'true',
+            Authorization: `Bearer ${owner}`,
+          });
+          const runId = response.headers.get('x-mastra-run-id')!;
+
+          const denied = await reattach(app, runId, { Authorization: `Bearer ${other}` });
+          expect(denied.status).toBe(404);
+
+          const allowed = await reattach(app, runId, { Authorization: `Bearer ${owner}` });
+          expect(allowed.status).toBe(200);
+          expect(sseTexts(await allowed.text())).toEqual(expectedTexts(2));
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('unknown runs get a 404', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uuid(), async (runId) => {
+        const { app } = await createApp(true, { count: 1, intervalMs: 0 });
+
+        const response = await reattach(app, runId);
+        expect(response.status).toBe(404);
+        expect(response.headers.get('content-type')).toContain('application/problem+json');
+        expect(await response.json()).toMatchObject({ status: 404, title: 'Not Found' });
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,315 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 29: WebSocket Transport
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import type { ElysiaServerOptions, WebSocketServerMessage } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 29: WebSocket Transport
+ *
+ * For any socket connected to the WebSocket endpoint:
+ * - Each subscription SHALL receive its run's chunks in order, tagged with its id, then `done`
+ * - Subscriptions to agent and workflow stream routes SHALL run concurrently on one socket
+ * - `cancel` and closing the socket SHALL abort the run's `abortSignal`
+ * - Upgrades SHALL be authenticated with the header or `token` query parameter,
+ *   and each subscription authorized for its own route
+ * - Subscriptions to public routes SHALL skip authentication but still be
+ *   authorized, as HTTP requests are
+ * - Unreadable messages and unknown routes SHALL get an `error` message
+ */
+describe('Property 29: WebSocket Transport', () => {
+  // Bearer tokens authenticate as `{ id: token }`; `authorize` denies paths containing "private"
+  const createMockMastra = (auth: boolean) => {
+    return {
+      getServer: () =>
+        auth
+          ? {
+              auth: {
+                authenticateToken: async (token: string) => (token ? { id: token } : null),
+                authorize: async (path: string) => !path.includes('private'),
+              },
+            }
+          : null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const chunkArb = fc
+    .tuple(fc.constantFrom('text-delta', 'step-start', 'reasoning'), fc.string({ maxLength: 10 }))
+    .map(([type, text]) => ({ type, payload: { text } }));
+
+  /**
+   * Starts a server with agent and workflow stream routes. Each run emits the
+   * chunks in its body (`{ chunks }`), one per millisecond, or never ends
+   * with `{ keepOpen: true }`. Handler calls are recorded with their params.
+   */
+  const startServer = async (options: Partial<ElysiaServerOptions> = {}, auth = false) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(auth),
+      prefix: '/api',
+      websocket: true,
+      streamOptions: { redact: false },
+      ...options,
+    });
+
+    const calls: { path: string; params: Record<string, unknown>; signal: AbortSignal }[] = [];
+    const streamRoute = (path: string) =>
+      ({
+        path,
+        method: 'POST' as const,
+        handler: async (params: Record<string, unknown> & { abortSignal: AbortSignal }) => {
+          calls.push({ path, params, signal: params.abortSignal });
+          const chunks = (params.chunks as unknown[] | undefined) ?? [];
+          let index = 0;
+          return {
+            fullStream: new ReadableStream({
+              async pull(controller) {
+                await sleep(1);
+                if (index < chunks.length) {
+                  controller.enqueue(chunks[index++]);
+                } else if (!params.keepOpen) {
+                  controller.close();
+                }
+              },
+            }),
+          };
+        },
+        responseType: 'stream' as const,
+        streamFormat: 'sse' as const,
+      }) as unknown as ServerRoute;
+
+    server.registerContextMiddleware();
+    server.registerAuthMiddleware();
+    await server.registerRoute(app, streamRoute('/agents/:agentId/stream'), { prefix: '/api' });
+    await server.registerRoute(app, streamRoute('/workflows/:workflowId/observe'), {
+      prefix: '/api',
+    });
+    server.registerWebSocketRoute();
+    app.listen(0);
+
+    return { app, calls, url: `ws://localhost:${app.server!.port}/api/ws` };
+  };
+
+  /**
+   * Opens a socket and queues the messages it receives.
+   */
+  const connect = async (url: string, headers: Record<string, string> = {}) => {
+    const socket = new WebSocket(url, { headers });
+    const messages: WebSocketServerMessage[] = [];
+    socket.addEventListener('message', (event) => messages.push(JSON.parse(String(event.data))));
+    await new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve());
+      socket.addEventListener('error', () => reject(new Error('WebSocket upgrade failed')));
+    });
+
+    /** Waits until a message matches, and returns it */
+    const waitFor = async (predicate: (message: WebSocketServerMessage) => boolean) => {
+      for (let i = 0; i < 500; i++) {
+        const message = messages.find(predicate);
+        if (message) {
+          return message;
+        }
+        await sleep(2);
+      }
+      throw new Error('Timed out waiting for a WebSocket message');
+    };
+
+    return {
+      socket,
+      messages,
+      waitFor,
+      send: (message: unknown) =>
+        socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    };
+  };
+
+  test('concurrent subscriptions receive their own chunks in order', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(chunkArb, { maxLength: 8 }),
+        fc.array(chunkArb, { maxLength: 8 }),
+        async (agentChunks, workflowChunks) => {
+          const { app, calls, url } = await startServer();
+          const client = await connect(url);
+
+          client.send({
+            type: 'subscribe',
+            id: 'agent',
+            path: '/api/agents/support/stream',
+            body: { chunks: agentChunks },
+          });
+          client.send({
+            type: 'subscribe',
+            id: 'workflow',
+            path: '/api/workflows/research/observe',
+            body: { chunks: workflowChunks },
+          });
+          await client.waitFor((m) => m.type === 'done' && m.id === 'agent');
+          await client.waitFor((m) => m.type === 'done' && m.id === 'workflow');
+
+          const chunksOf = (id: string) =>
+            client.messages.flatMap((m) => (m.type === 'chunk' && m.id === id ? [m.chunk] : []));
+          expect(chunksOf('agent')).toEqual(agentChunks);
+          expect(chunksOf('workflow')).toEqual(workflowChunks);
+          expect(calls.find((c) => c.path.startsWith('/agents'))?.params.agentId).toBe('support');
+          expect(calls.find((c) => c.path.startsWith('/workflows'))?.params.workflowId).toBe(
+            'research'
+          );
+
+          client.socket.close();
+          app.stop();
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('cancelling a subscription or closing the socket aborts the run', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom('cancel', 'close'), async (how) => {
+        const { app, calls, url } = await startServer();
+        const client = await connect(url);
+
+        client.send({
+          type: 'subscribe',
+          id: 'run',
+          path: '/api/agents/a1/stream',
+          body: { chunks: [{ type: 'text-delta', payload: { text: 'hi' } }], keepOpen: true },
+        });
+        await client.waitFor((m) => m.type === 'chunk');
+
+        if (how === 'cancel') {
+          client.send({ type: 'cancel', id: 'run' });
+          await client.waitFor((m) => m.type === 'done' && m.id === 'run');
+        } else {
+          client.socket.close();
+          await sleep(20);
+        }
+        expect(calls[0]!.signal.aborted).toBe(true);
+
+        client.socket.close();
+        app.stop();
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('upgrades are authenticated and subscriptions authorized per route', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^[a-z0-9]{1,12}$/),
+        fc.constantFrom('query', 'header'),
+        async (userId, via) => {
+          const { app, calls, url } = await startServer({}, true);
+
+          await expect(connect(url)).rejects.toThrow('WebSocket upgrade failed');
+
+          const client =
+            via === 'query'
+              ? await connect(`${url}?token=${userId}`)
+              : await connect(url, { Authorization: `Bearer ${userId}` });
+
+          client.send({ type: 'subscribe', id: 'ok', path: '/api/agents/a1/stream' });
+          client.send({ type: 'subscribe', id: 'denied', path: '/api/agents/private/stream' });
+          await client.waitFor((m) => m.type === 'done' && m.id === 'ok');
+          const denied = await client.waitFor((m) => m.id === 'denied');
+
+          expect(denied).toMatchObject({ type: 'error', error: { code: 'forbidden' } });
+          expect(calls).toHaveLength(1);
+          expect(calls[0]!.params.user).toEqual({ id: userId });
+
+          client.socket.close();
+          app.stop();
+          return true;
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  test('subscriptions to public routes are still authorized', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom('a1', 'private'), async (agentId) => {
+        const { app, calls, url } = await startServer(
+          {
+            customRouteAuthConfig: new Map([
+              ['GET:/api/ws', false],
+              ['POST:/api/agents/*', false],
+            ]),
+          },
+          true
+        );
+        const client = await connect(url);
+
+        client.send({ type: 'subscribe', id: 'agent', path: `/api/agents/${agentId}/stream` });
+        client.send({ type: 'subscribe', id: 'workflow', path: '/api/workflows/w1/observe' });
+        const agent = await client.waitFor(
+          (m) => m.id === 'agent' && (m.type === 'done' || m.type === 'error')
+        );
+        const workflow = await client.waitFor((m) => m.id === 'workflow');
+
+        if (agentId === 'private') {
+          expect(agent).toMatchObject({ type: 'error', error: { code: 'forbidden' } });
+          expect(calls).toHaveLength(0);
+        } else {
+          expect(agent.type).toBe('done');
+          expect(calls).toHaveLength(1);
+        }
+        expect(workflow).toMatchObject({ type: 'error', error: { code: 'unauthorized' } });
+
+        client.socket.close();
+        app.stop();
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('unreadable messages and unknown routes get an error', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.oneof(
+          fc.constant('not json'),
+          fc.constant({ type: 'subscribe', path: '/api/agents/a1/stream' }),
+          fc.record({ type: fc.constant('unknown'), id: fc.string({ minLength: 1 }) })
+        ),
+        fc.constantFrom('/api/agents/a1/generate', '/api/nope', '/agents/a1/stream'),
+        async (invalid, unknownPath) => {
+          const { app, url } = await startServer();
+          const client = await connect(url);
+
+          client.send(invalid);
+          const error = await client.waitFor((m) => m.type === 'error' && m.id === undefined);
+          expect(error).toMatchObject({ error: { code: 'invalid_message' } });
+
+          client.send({ type: 'subscribe', id: 's1', path: unknownPath });
+          const notFound = await client.waitFor((m) => m.id === 's1');
+          expect(notFound).toMatchObject({ type: 'error', error: { code: 'not_found' } });
+
+          client.socket.close();
+          app.stop();
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
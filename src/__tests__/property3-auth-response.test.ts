@@ -17,6 +17,8 @@ import type { Mastra } from '@mastra/core/mastra';
  * - If authentication fails, response status SHALL be 401
  * - If authorization fails, response status SHALL be 403
  * - If authentication succeeds, user SHALL be attached to context
+ * - `customRouteAuthConfig` overrides SHALL match exact paths and `*`
+ *   prefixes only, never `:param` patterns
  */
 describe('Property 3: Authentication Response Codes', () => {
   const createMockMastraWithAuth = (authConfig?: {
@@ -178,4 +180,39 @@ describe('Property 3: Authentication Response Codes', () => {
       { numRuns: 100 }
     );
   });
+
+  test('auth overrides match exact paths and wildcard prefixes, not :params', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.stringMatching(/^[a-z0-9]{1,12}$/), async (agentId) => {
+        const app = new Elysia();
+        const mastra = createMockMastraWithAuth({ authenticateToken: async () => null });
+
+        const server = new ElysiaServer({
+          app,
+          mastra,
+          customRouteAuthConfig: new Map([
+            ['GET:/agents/:agentId', false],
+            ['GET:/public/*', false],
+            [`GET:/exact/${agentId}`, false],
+          ]),
+        });
+        server.registerAuthMiddleware();
+
+        app.get('/agents/:agentId', () => ({ ok: true }));
+        app.get('/public/:agentId', () => ({ ok: true }));
+        app.get('/exact/:agentId', () => ({ ok: true }));
+
+        const status = async (path: string) =>
+          (await app.handle(new Request(`http://localhost${path}`))).status;
+
+        expect(await status(`/agents/${agentId}`)).toBe(401);
+        expect(await status(`/public/${agentId}`)).toBe(200);
+        expect(await status(`/exact/${agentId}`)).toBe(200);
+        expect(await status(`/exact/${agentId}x`)).toBe(401);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
 });
@@ -0,0 +1,182 @@
+/**
+ * Property-based tests for ElysiaServer - Property 30: Shared Context Derivation
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import { mastra, mastraServer } from '../plugin';
+import type { LogFields, MastraLogger } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 30: Shared Context Derivation
+ *
+ * For any request:
+ * - The `mastra()` plugin and `registerContextMiddleware` SHALL derive the same
+ *   request id, request context and abort signal state
+ * - Both SHALL log and ignore an invalid `requestContext` query parameter
+ * - The `mastraServer()` plugin SHALL register Mastra's routes, auth and body
+ *   limits, and give the app's own routes the Mastra context
+ */
+describe('Property 30: Shared Context Derivation', () => {
+  // Bearer tokens authenticate as `{ id: token }`; requests without one fail
+  const createMockMastra = (auth = false) => {
+    return {
+      getServer: () =>
+        auth
+          ? { auth: { authenticateToken: async (token: string) => (token ? { id: token } : null) } }
+          : null,
+      getAgent: () => null,
+      getAgents: () => ({}),
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const createLogger = () => {
+    const warnings: { message: string; fields?: LogFields }[] = [];
+    const logger: MastraLogger = {
+      error: () => {},
+      warn: (message, fields) => void warnings.push({ message, fields }),
+      info: () => {},
+    };
+    return { logger, warnings };
+  };
+
+  const requestContextArb = fc
+    .array(
+      fc.tuple(fc.stringMatching(/^[a-z][a-z0-9_]{0,9}$/), fc.oneof(fc.string(), fc.integer())),
+      { maxLength: 3 }
+    )
+    .map((pairs) => Object.fromEntries(pairs));
+
+  /**
+   * Returns what a route sees of its derived context, with the response's
+   * request id header.
+   */
+  const captureContext = async (app: Elysia, query: string) => {
+    let seen: { requestId?: string; requestContext?: Record<string, unknown>; aborted?: boolean } =
+      {};
+    app.get('/context', (context) => {
+      const ctx = context as unknown as {
+        requestId: string;
+        requestContext: { entries(): Iterable<[string, unknown]> };
+        abortSignal: AbortSignal;
+      };
+      seen = {
+        requestId: ctx.requestId,
+        requestContext: Object.fromEntries(ctx.requestContext.entries()),
+        aborted: ctx.abortSignal.aborted,
+      };
+      return { ok: true };
+    });
+
+    const response = await app.handle(
+      new Request(`http://localhost/context${query}`, { headers: { 'X-Request-Id': 'req-1' } })
+    );
+    return { ...seen, header: response.headers.get('x-request-id') };
+  };
+
+  test('the plugin and the server derive the same context', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.oneof(
+          requestContextArb.map((values) => ({ valid: true, param: JSON.stringify(values) })),
+          fc.constant({ valid: false, param: '{not json' })
+        ),
+        async ({ valid, param }) => {
+          const query = `?requestContext=${encodeURIComponent(param)}`;
+
+          const pluginLog = createLogger();
+          const pluginApp = new Elysia().use(
+            mastra({ mastra: createMockMastra(), logger: pluginLog.logger })
+          ) as unknown as Elysia;
+          const fromPlugin = await captureContext(pluginApp, query);
+
+          const serverLog = createLogger();
+          const serverApp = new Elysia();
+          new ElysiaServer({
+            app: serverApp,
+            mastra: createMockMastra(),
+            logger: serverLog.logger,
+          }).registerContextMiddleware();
+          const fromServer = await captureContext(serverApp, query);
+
+          expect(fromPlugin).toEqual(fromServer);
+          expect(fromPlugin).toMatchObject({ requestId: 'req-1', header: 'req-1', aborted: false });
+          expect(fromPlugin.requestContext).toEqual({
+            ...(valid ? JSON.parse(param) : {}),
+            requestId: 'req-1',
+          });
+
+          const expectedWarnings = valid ? 0 : 1;
+          expect(pluginLog.warnings).toHaveLength(expectedWarnings);
+          expect(serverLog.warnings).toEqual(pluginLog.warnings);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('mastraServer registers routes, auth and limits for the whole app', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^[a-z0-9]{1,12}$/),
+        fc.integer({ min: 16, max: 256 }),
+        async (userId, maxSize) => {
+          const app = new Elysia()
+            .use(
+              mastraServer({
+                mastra: createMockMastra(true),
+                metrics: true,
+                customRouteAuthConfig: new Map([['GET:/metrics', false]]),
+                bodyLimitOptions: { maxSize, onError: () => ({ error: 'too large' }) },
+              })
+            )
+            .post('/me', ({ user, requestId }) => ({ user, requestId }));
+          await app.modules;
+
+          const post = (body: string, token?: string) =>
+            app.handle(
+              new Request('http://localhost/me', {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'text/plain',
+                  ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                },
+                body,
+              })
+            );
+
+          // The app's own routes get auth, limits and the typed context
+          expect((await post('hi')).status).toBe(401);
+          expect((await post('x'.repeat(maxSize + 1), userId)).status).toBe(413);
+          const response = await post('hi', userId);
+          expect(response.status).toBe(200);
+          expect(await response.json()).toMatchObject({ user: { id: userId } });
+
+          // Mastra routes and the metrics endpoint are registered
+          const metrics = await app.handle(new Request('http://localhost/metrics'));
+          expect(metrics.status).toBe(200);
+          const agents = await app.handle(
+            new Request('http://localhost/api/agents', {
+              headers: { Authorization: `Bearer ${userId}` },
+            })
+          );
+          // Mastra's route paths start with /api
+          expect(await agents.text()).not.toBe('NOT_FOUND');
+
+          return true;
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Property-based tests for ElysiaServer - Property 31: Typed Users
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ * The handlers below read `ctx.user` without casts, so `tsc` checks the
+ * inference as well.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import { mastraServer } from '../plugin';
+import type { ElysiaAuthConfig, ElysiaWithMastra } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+
+interface User {
+  id: string;
+  role: 'admin' | 'viewer';
+}
+
+/**
+ * Feature: elysia-mastra-adapter, Property 31: Typed Users
+ *
+ * For any server with an `auth` option:
+ * - The user `authenticateToken` resolves to SHALL reach `ctx.user` and `authorize`
+ * - The `auth` option SHALL take precedence over Mastra's auth config
+ * - Plugin functions typed with `ElysiaWithMastra` SHALL see the same user
+ */
+describe('Property 31: Typed Users', () => {
+  const createMockMastra = (auth?: unknown) => {
+    return {
+      getServer: () => (auth ? { auth } : null),
+      getAgent: () => null,
+      getAgents: () => ({}),
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  // Tokens are `role:id`; anything else does not authenticate
+  const authenticateToken = async (token: string): Promise<User | null> => {
+    const [role, id] = token.split(':');
+    return (role === 'admin' || role === 'viewer') && id ? { id, role } : null;
+  };
+
+  const userArb = fc.record({
+    id: fc.stringMatching(/^[a-z0-9]{1,12}$/),
+    role: fc.constantFrom('admin' as const, 'viewer' as const),
+  });
+
+  const request = (path: string, user?: User) =>
+    new Request(`http://localhost${path}`, {
+      headers: user ? { Authorization: `Bearer ${user.role}:${user.id}` } : {},
+    });
+
+  /**
+   * A plugin function adding a route that echoes the typed user.
+   */
+  const whoami = (app: ElysiaWithMastra<User>) =>
+    app.get('/whoami', ({ user, requestId }) => {
+      const role: 'admin' | 'viewer' | undefined = user?.role;
+      return { id: user?.id ?? null, role: role ?? null, requestId };
+    });
+
+  test('the authenticated user reaches ctx.user and authorize', async () => {
+    await fc.assert(
+      fc.asyncProperty(userArb, async (user) => {
+        const authorized: (User | null)[] = [];
+        const server = new ElysiaServer({
+          app: new Elysia(),
+          mastra: createMockMastra(),
+          auth: {
+            authenticateToken,
+            authorize: (path, method, authUser, context) => {
+              authorized.push(authUser);
+              expect(context.user).toEqual(authUser);
+              return authUser?.role === 'admin' || !path.startsWith('/admin');
+            },
+          },
+        });
+        server.registerContextMiddleware();
+        server.registerAuthMiddleware();
+
+        const app = server.getApp();
+        whoami(app);
+        app.get('/admin/ping', ({ user }) => ({ pong: user?.id }));
+
+        const response = await app.handle(request('/whoami', user));
+        expect(await response.json()).toMatchObject({ id: user.id, role: user.role });
+        expect(authorized).toEqual([user]);
+
+        const admin = await app.handle(request('/admin/ping', user));
+        expect(admin.status).toBe(user.role === 'admin' ? 200 : 403);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('the auth option takes precedence over Mastra auth config', async () => {
+    await fc.assert(
+      fc.asyncProperty(userArb, fc.boolean(), async (user, withOption) => {
+        // Mastra's config rejects every token
+        const mastraAuth = { authenticateToken: async () => null };
+        const auth: ElysiaAuthConfig<User> | undefined = withOption
+          ? { authenticateToken }
+          : undefined;
+        const server = new ElysiaServer({
+          app: new Elysia(),
+          mastra: createMockMastra(mastraAuth),
+          auth,
+        });
+        server.registerContextMiddleware();
+        server.registerAuthMiddleware();
+        const app = whoami(server.getApp());
+
+        const response = await app.handle(request('/whoami', user));
+        expect(response.status).toBe(withOption ? 200 : 401);
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('mastraServer() types the user of the app routes', async () => {
+    await fc.assert(
+      fc.asyncProperty(userArb, async (user) => {
+        const app = new Elysia()
+          .use(mastraServer({ mastra: createMockMastra(), auth: { authenticateToken } }))
+          .get('/me', ({ user }) => ({ id: user?.id ?? null, admin: user?.role === 'admin' }));
+        await app.modules;
+
+        const response = await app.handle(request('/me', user));
+        expect(await response.json()).toEqual({ id: user.id, admin: user.role === 'admin' });
+
+        const anonymous = await app.handle(request('/me'));
+        expect(anonymous.status).toBe(401);
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
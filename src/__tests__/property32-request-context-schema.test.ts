@@ -0,0 +1,313 @@
+/**
+ * Property-based tests for ElysiaServer - Property 32: Request Context Schema
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { z } from 'zod';
+import { ElysiaServer } from '../server';
+import { mastra } from '../plugin';
+import type { RequestContextUnknownKeys } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 32: Request Context Schema
+ *
+ * For any request context sent with a `requestContextSchema` configured:
+ * - Valid contexts SHALL reach handlers coerced, typed by the schema output
+ * - Unknown keys SHALL be stripped, or rejected with a 400 under `reject`
+ * - Invalid contexts SHALL get a 400 validation problem with a short detail
+ * - Mastra routes SHALL validate the query and body contexts merged, keeping
+ *   values the adapter and middleware set
+ * - The adapter's own endpoints SHALL only check the keys present, so
+ *   required keys are never needed to reach them
+ */
+describe('Property 32: Request Context Schema', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const requestContextSchema = z.object({
+    locale: z.string(),
+    maxSteps: z.coerce.number().int().optional(),
+  });
+
+  const contextArb = fc.record(
+    {
+      locale: fc.constantFrom('en', 'fr', 'de'),
+      maxSteps: fc.integer({ min: 0, max: 100 }).map(String),
+    },
+    { requiredKeys: ['locale'] }
+  );
+
+  const expected = (context: { locale: string; maxSteps?: string }) => ({
+    locale: context.locale,
+    ...(context.maxSteps !== undefined ? { maxSteps: Number(context.maxSteps) } : {}),
+  });
+
+  const query = (context: Record<string, unknown>) =>
+    `?requestContext=${encodeURIComponent(JSON.stringify(context))}`;
+
+  /**
+   * An app with the `mastra()` plugin, or an ElysiaServer's context
+   * middleware, echoing a custom route's typed request context.
+   */
+  const createApp = (via: 'plugin' | 'server', unknownKeys?: RequestContextUnknownKeys) => {
+    if (via === 'plugin') {
+      return new Elysia()
+        .use(
+          mastra({
+            mastra: createMockMastra(),
+            requestContextSchema,
+            requestContextUnknownKeys: unknownKeys,
+          })
+        )
+        .get('/context', ({ requestContext }) => {
+          const locale: string = requestContext.get('locale');
+          return { locale, context: Object.fromEntries(requestContext.entries()) };
+        });
+    }
+
+    const server = new ElysiaServer({
+      app: new Elysia(),
+      mastra: createMockMastra(),
+      requestContextSchema,
+      requestContextUnknownKeys: unknownKeys,
+    });
+    server.registerContextMiddleware();
+    return server.getApp().get('/context', ({ requestContext }) => {
+      const maxSteps: number | undefined = requestContext.get('maxSteps');
+      return { maxSteps, context: Object.fromEntries(requestContext.entries()) };
+    });
+  };
+
+  /**
+   * An ElysiaServer with a Mastra POST route recording the request context
+   * its handler gets. Middleware sets `mastra__resourceId`.
+   */
+  const createMastraApp = async (unknownKeys?: RequestContextUnknownKeys) => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      requestContextSchema,
+      requestContextUnknownKeys: unknownKeys,
+    });
+    server.registerContextMiddleware();
+    server.getApp().onBeforeHandle(({ requestContext }) => {
+      requestContext.set('mastra__resourceId', 'user-1');
+    });
+
+    const seen: Record<string, unknown>[] = [];
+    const route = {
+      path: '/agents/:agentId/generate',
+      method: 'POST' as const,
+      handler: async ({
+        requestContext,
+      }: {
+        requestContext: { entries(): Iterable<[string, unknown]> };
+      }) => {
+        seen.push(Object.fromEntries(requestContext.entries()));
+        return { ok: true };
+      },
+      responseType: 'json' as const,
+    } as unknown as ServerRoute;
+    await server.registerRoute(app, route, {});
+
+    return { app, seen };
+  };
+
+  const post = (app: Elysia, queryContext?: Record<string, unknown>, bodyContext?: unknown) =>
+    app.handle(
+      new Request(`http://localhost/agents/a1/generate${queryContext ? query(queryContext) : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'req-1' },
+        body: JSON.stringify(bodyContext === undefined ? {} : { requestContext: bodyContext }),
+      })
+    );
+
+  test('valid contexts are coerced and unknown keys stripped', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contextArb,
+        fc.constantFrom('plugin' as const, 'server' as const),
+        async (context, via) => {
+          const app = createApp(via);
+
+          const response = await app.handle(
+            new Request(`http://localhost/context${query({ ...context, tenantId: 'evil' })}`)
+          );
+          expect(response.status).toBe(200);
+          const { context: seen } = (await response.json()) as { context: unknown };
+          expect(seen).toEqual({ ...expected(context), requestId: expect.any(String) });
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('invalid contexts and rejected unknown keys get a 400 problem', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contextArb,
+        fc.constantFrom('plugin' as const, 'server' as const),
+        fc.constantFrom('unknown-key', 'missing-key', 'not-a-number'),
+        async (context, via, invalid) => {
+          const app = createApp(via, 'reject');
+          const sent = {
+            'unknown-key': { ...context, tenantId: 'evil' },
+            'missing-key': { maxSteps: context.maxSteps },
+            'not-a-number': { ...context, maxSteps: 'many' },
+          }[invalid];
+
+          const response = await app.handle(
+            new Request(`http://localhost/context${query(sent)}`, {
+              headers: { 'X-Request-Id': 'req-1' },
+            })
+          );
+          expect(response.status).toBe(400);
+          expect(response.headers.get('content-type')).toContain('application/problem+json');
+          const problem = (await response.json()) as { errors: unknown[] };
+          expect(problem).toMatchObject({
+            type: 'urn:elysia-mastra:problem:validation-error',
+            status: 400,
+            detail: 'Invalid requestContext',
+            instance: '/context',
+            requestId: 'req-1',
+          });
+          expect(problem.errors.length).toBeGreaterThan(0);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Mastra routes validate the query and body contexts merged', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contextArb,
+        fc.constantFrom('query', 'body', 'split'),
+        async (context, source) => {
+          const { app, seen } = await createMastraApp();
+          const { locale, ...rest } = context;
+          const [queryContext, bodyContext] = {
+            query: [{ ...context, tenantId: 'evil' }, undefined],
+            body: [undefined, { ...context, tenantId: 'evil' }],
+            // Required keys may come from either
+            split: [rest, { locale, tenantId: 'evil' }],
+          }[source];
+
+          const response = await post(app, queryContext, bodyContext);
+          expect(response.status).toBe(200);
+          expect(seen[0]).toEqual({
+            ...expected(context),
+            requestId: 'req-1',
+            mastra__resourceId: 'user-1',
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('Mastra routes reject invalid merged contexts', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contextArb,
+        fc.constantFrom('missing-key', 'not-a-number', 'unknown-body-key'),
+        async (context, invalid) => {
+          const { app, seen } = await createMastraApp('reject');
+          const [queryContext, bodyContext] = {
+            'missing-key': [{ maxSteps: context.maxSteps }, undefined],
+            'not-a-number': [undefined, { ...context, maxSteps: 'many' }],
+            'unknown-body-key': [context, { tenantId: 'evil' }],
+          }[invalid];
+
+          const response = await post(app, queryContext, bodyContext);
+          expect(response.status).toBe(400);
+          expect(await response.json()).toMatchObject({
+            type: 'urn:elysia-mastra:problem:validation-error',
+            detail: 'Invalid requestContext',
+            requestId: 'req-1',
+          });
+          expect(seen).toHaveLength(0);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test("the adapter's own endpoints only check the keys present", async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom('metrics', 'run-stream', 'websocket'),
+        fc.constantFrom('none', 'valid', 'invalid'),
+        async (endpoint, sent) => {
+          const app = new Elysia();
+          const server = new ElysiaServer({
+            app,
+            mastra: createMockMastra(),
+            requestContextSchema,
+            metrics: true,
+            streamOptions: { detach: true },
+            websocket: true,
+          });
+          server.registerContextMiddleware();
+          server.registerMetricsRoute();
+          server.registerRunStreamRoute();
+          server.registerWebSocketRoute();
+
+          const context = {
+            none: undefined,
+            valid: { maxSteps: '3' },
+            invalid: { maxSteps: 'many' },
+          }[sent];
+          const search = context ? query(context) : '';
+
+          if (endpoint === 'websocket') {
+            app.listen(0);
+            try {
+              const socket = new WebSocket(`ws://localhost:${app.server?.port}/ws${search}`);
+              const opened = await new Promise<boolean>((resolve) => {
+                socket.addEventListener('open', () => resolve(true));
+                socket.addEventListener('error', () => resolve(false));
+              });
+              socket.close();
+              expect(opened).toBe(sent !== 'invalid');
+            } finally {
+              await app.stop(true);
+            }
+            return true;
+          }
+
+          const path = endpoint === 'metrics' ? '/metrics' : '/runs/unknown/stream';
+          const response = await app.handle(new Request(`http://localhost${path}${search}`));
+          expect(response.status).toBe(
+            sent === 'invalid' ? 400 : endpoint === 'metrics' ? 200 : 404
+          );
+
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
@@ -0,0 +1,217 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/**
+ * Property-based tests for ElysiaServer - Property 33: Trusted Request Context
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { ElysiaServer } from '../server';
+import { decodeJwtClaims } from '../trusted-context';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+
+interface User {
+  id: string;
+  profile: { plan: string };
+}
+
+/**
+ * Feature: elysia-mastra-adapter, Property 33: Trusted Request Context
+ *
+ * For any server with `trustedRequestContext` configured:
+ * - Keys sourced from headers SHALL hold the header values
+ * - Keys sourced from the user and JWT claims SHALL hold their values for
+ *   authenticated requests only
+ * - Client values for trusted keys, from the query parameter or the body,
+ *   SHALL never reach handlers, even when the source has no value
+ */
+describe('Property 33: Trusted Request Context', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const base64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  /** An unsigned JWT carrying `claims`; the mock auth accepts any JWT */
+  const createJwt = (claims: Record<string, unknown>) =>
+    `${base64url({ alg: 'none' })}.${base64url(claims)}.`;
+
+  const authenticateToken = async (token: string): Promise<User | null> => {
+    const claims = decodeJwtClaims(token);
+    return claims ? { id: String(claims.sub), profile: { plan: String(claims.plan) } } : null;
+  };
+
+  const tokenArb = fc.record({
+    sub: fc.stringMatching(/^[a-z0-9]{1,12}$/),
+    plan: fc.constantFrom('free', 'pro'),
+    org: fc.record({ id: fc.stringMatching(/^org-[a-z0-9]{1,8}$/) }),
+  });
+
+  /**
+   * Registers a protected and a public Mastra POST route, recording the
+   * request context their handler gets.
+   */
+  const createApp = async () => {
+    const app = new Elysia();
+    const server = new ElysiaServer({
+      app,
+      mastra: createMockMastra(),
+      auth: { authenticateToken },
+      customRouteAuthConfig: new Map([['POST:/public/*', false]]),
+      trustedRequestContext: {
+        tenantId: { header: 'x-tenant-id' },
+        userId: { user: 'id' },
+        plan: { user: (user) => user.profile.plan },
+        orgId: { claim: 'org.id' },
+      },
+    });
+    server.registerContextMiddleware();
+    server.registerAuthMiddleware();
+
+    const seen: Record<string, unknown>[] = [];
+    for (const path of ['/agents/:agentId/generate', '/public/:agentId/generate']) {
+      const route = {
+        path,
+        method: 'POST' as const,
+        handler: async ({
+          requestContext,
+        }: {
+          requestContext: { entries(): Iterable<[string, unknown]> };
+        }) => {
+          seen.push(Object.fromEntries(requestContext.entries()));
+          return { ok: true };
+        },
+        responseType: 'json' as const,
+      } as unknown as ServerRoute;
+      await server.registerRoute(app, route, {});
+    }
+
+    return { app, seen };
+  };
+
+  const forged = { tenantId: 'evil', userId: 'admin', plan: 'enterprise', orgId: 'org-evil' };
+
+  const post = (
+    app: Elysia,
+    path: string,
+    headers: Record<string, string>,
+    bodyContext: Record<string, unknown>
+  ) =>
+    app.handle(
+      new Request(
+        `http://localhost${path}?requestContext=${encodeURIComponent(JSON.stringify(forged))}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ requestContext: bodyContext }),
+        }
+      )
+    );
+
+  test('trusted keys hold the header, user and claim values', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        tokenArb,
+        fc.option(fc.stringMatching(/^t-[a-z0-9]{1,8}$/), { nil: undefined }),
+        async (claims, tenantId) => {
+          const { app, seen } = await createApp();
+
+          const response = await post(
+            app,
+            '/agents/a1/generate',
+            {
+              Authorization: `Bearer ${createJwt(claims)}`,
+              ...(tenantId ? { 'X-Tenant-Id': tenantId } : {}),
+            },
+            { ...forged, locale: 'fr' }
+          );
+          expect(response.status).toBe(200);
+
+          const { requestId, ...context } = seen[0]!;
+          expect(requestId).toBeString();
+          expect(context).toEqual({
+            ...(tenantId ? { tenantId } : {}),
+            userId: claims.sub,
+            plan: claims.plan,
+            orgId: claims.org.id,
+            locale: 'fr',
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('unauthenticated requests get no user or claim values', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.stringMatching(/^t-[a-z0-9]{1,8}$/), async (tenantId) => {
+        const { app, seen } = await createApp();
+
+        const response = await post(
+          app,
+          '/public/a1/generate',
+          { 'X-Tenant-Id': tenantId },
+          forged
+        );
+        expect(response.status).toBe(200);
+
+        const { requestId, ...context } = seen[0]!;
+        expect(requestId).toBeString();
+        expect(context).toEqual({ tenantId });
+
+        return true;
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('custom routes get the trusted values too', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        tokenArb,
+        fc.stringMatching(/^t-[a-z0-9]{1,8}$/),
+        async (claims, tenantId) => {
+          const { app } = await createApp();
+          app.get('/context', (context) => {
+            const { requestContext } = context as unknown as {
+              requestContext: { entries(): Iterable<[string, unknown]> };
+            };
+            return Object.fromEntries(requestContext.entries());
+          });
+
+          const response = await app.handle(
+            new Request(
+              `http://localhost/context?requestContext=${encodeURIComponent(JSON.stringify(forged))}`,
+              {
+                headers: {
+                  Authorization: `Bearer ${createJwt(claims)}`,
+                  'X-Tenant-Id': tenantId,
+                },
+              }
+            )
+          );
+          expect(await response.json()).toMatchObject({
+            tenantId,
+            userId: claims.sub,
+            plan: claims.plan,
+            orgId: claims.org.id,
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
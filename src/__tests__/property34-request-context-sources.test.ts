@@ -0,0 +1,291 @@
+/**
+ * Property-based tests for ElysiaServer - Property 34: Request Context Sources
+ *
+ * Uses fast-check to verify universal properties across many generated inputs.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import * as fc from 'fast-check';
+import { Elysia } from 'elysia';
+import { signCookie } from 'elysia/utils';
+import { ElysiaServer } from '../server';
+import { mastra } from '../plugin';
+import type { RequestContextSourceOptions } from '../types';
+import type { Mastra } from '@mastra/core/mastra';
+
+/**
+ * Feature: elysia-mastra-adapter, Property 34: Request Context Sources
+ *
+ * For any request context sent with `requestContextSources` configured:
+ * - The header and the signed cookie SHALL give the same context as the
+ *   query parameter
+ * - Present sources SHALL merge header, then query parameter, then the
+ *   signed cookie, so unsigned sources never override the cookie's keys
+ * - Malformed, oversized or badly signed sources SHALL be ignored with a
+ *   warning, or get a 400 validation problem in strict mode
+ */
+describe('Property 34: Request Context Sources', () => {
+  const createMockMastra = () => {
+    return {
+      getServer: () => null,
+      getAgent: () => null,
+      getWorkflow: () => null,
+      getTools: () => ({}),
+      setMastraServer: () => {},
+    } as unknown as Mastra;
+  };
+
+  const secrets: [string, string] = ['current-secret', 'previous-secret'];
+
+  const contextArb = fc.dictionary(
+    fc.stringMatching(/^ctx[A-Z][a-zA-Z0-9]{0,8}$/),
+    fc.oneof(fc.string({ maxLength: 20 }), fc.integer(), fc.boolean()),
+    { maxKeys: 5 }
+  );
+
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const cookie = async (value: string, secret = secrets[0]) =>
+    `mastra_request_context=${encodeURIComponent(await signCookie(value, secret))}`;
+
+  /**
+   * An app with the `mastra()` plugin, or an ElysiaServer's context
+   * middleware, echoing a route's request context and recording warnings.
+   */
+  const createApp = (via: 'plugin' | 'server', options: RequestContextSourceOptions) => {
+    const warnings: string[] = [];
+    const logger = {
+      debug: () => {},
+      info: () => {},
+      warn: (message: string) => warnings.push(message),
+      error: () => {},
+    };
+    const echo = ({
+      requestContext,
+    }: {
+      requestContext: { entries(): Iterable<[string, unknown]> };
+    }) => {
+      const { requestId: _, ...context } = Object.fromEntries(requestContext.entries());
+      return context;
+    };
+
+    if (via === 'plugin') {
+      const app = new Elysia()
+        .use(mastra({ mastra: createMockMastra(), logger, requestContextSources: options }))
+        .get('/context', echo);
+      return { app, warnings };
+    }
+
+    const server = new ElysiaServer({
+      app: new Elysia(),
+      mastra: createMockMastra(),
+      logger,
+      requestContextSources: options,
+    });
+    server.registerContextMiddleware();
+    return { app: server.getApp().get('/context', echo), warnings };
+  };
+
+  const viaArb = fc.constantFrom('plugin' as const, 'server' as const);
+
+  test('the header and signed cookie give the same context as the query', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contextArb,
+        viaArb,
+        fc.constantFrom('query', 'header', 'cookie', 'previous-secret'),
+        async (context, via, source) => {
+          const { app, warnings } = createApp(via, {
+            header: true,
+            cookie: { secrets },
+          });
+
+          const headers: Record<string, string> =
+            source === 'header'
+              ? { 'X-Mastra-Request-Context': encode(context) }
+              : source === 'query'
+                ? {}
+                : { Cookie: await cookie(encode(context), secrets[source === 'cookie' ? 0 : 1]) };
+          const query =
+            source === 'query'
+              ? `?requestContext=${encodeURIComponent(JSON.stringify(context))}`
+              : '';
+
+          const response = await app.handle(
+            new Request(`http://localhost/context${query}`, { headers })
+          );
+          expect(await response.json()).toEqual(context);
+          expect(warnings).toEqual([]);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('sources merge header, then query parameter, then cookie', async () => {
+    await fc.assert(
+      fc.asyncProperty(contextArb, contextArb, contextArb, viaArb, async (c, h, q, via) => {
+        const { app } = createApp(via, { header: 'X-Context', cookie: { secrets } });
+
+        const response = await app.handle(
+          new Request(
+            `http://localhost/context?requestContext=${encodeURIComponent(JSON.stringify(q))}`,
+            { headers: { 'X-Context': encode(h), Cookie: await cookie(encode(c)) } }
+          )
+        );
+        expect(await response.json()).toEqual({ ...h, ...q, ...c });
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('unsigned sources cannot override the signed cookie', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.string({ maxLength: 20 }),
+        fc.string({ maxLength: 20 }),
+        viaArb,
+        async (role, forged, via) => {
+          const { app } = createApp(via, { header: true, cookie: { secrets } });
+
+          const response = await app.handle(
+            new Request(
+              `http://localhost/context?requestContext=${encodeURIComponent(JSON.stringify({ role: forged }))}`,
+              {
+                headers: {
+                  'X-Mastra-Request-Context': encode({ role: forged, locale: 'fr' }),
+                  Cookie: await cookie(encode({ role })),
+                },
+              }
+            )
+          );
+          expect(await response.json()).toEqual({ role, locale: 'fr' });
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('disabled sources are not read', async () => {
+    await fc.assert(
+      fc.asyncProperty(contextArb, viaArb, async (context, via) => {
+        const { app } = createApp(via, { query: false });
+
+        const response = await app.handle(
+          new Request(
+            `http://localhost/context?requestContext=${encodeURIComponent(JSON.stringify(context))}`,
+            {
+              headers: {
+                'X-Mastra-Request-Context': encode(context),
+                Cookie: await cookie(encode(context)),
+              },
+            }
+          )
+        );
+        expect(await response.json()).toEqual({});
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  const invalidArb = fc.constantFrom(
+    'bad-signature',
+    'unsigned-cookie',
+    'bad-base64url',
+    'bad-json',
+    'array',
+    'oversized-header',
+    'oversized-query'
+  );
+
+  /**
+   * A request carrying one invalid source alongside a valid header.
+   */
+  const invalidRequest = async (invalid: string, valid: Record<string, unknown>) => {
+    const headers: Record<string, string> = { 'X-Request-Id': 'req-1' };
+    let query = '';
+    switch (invalid) {
+      case 'bad-signature':
+        headers.Cookie = await cookie(encode({ role: 'admin' }), 'guessed-secret');
+        break;
+      case 'unsigned-cookie':
+        headers.Cookie = `mastra_request_context=${encode({ role: 'admin' })}`;
+        break;
+      case 'bad-base64url':
+        headers.Cookie = await cookie('not base64url!');
+        break;
+      case 'bad-json':
+        query = `?requestContext=${encodeURIComponent('{"role":')}`;
+        break;
+      case 'array':
+        query = `?requestContext=${encodeURIComponent('["admin"]')}`;
+        break;
+      case 'oversized-header':
+        headers['X-Mastra-Request-Context'] = encode({ padding: 'x'.repeat(200) });
+        return new Request('http://localhost/context', { headers });
+      case 'oversized-query':
+        query = `?requestContext=${encodeURIComponent(JSON.stringify({ padding: 'x'.repeat(200) }))}`;
+        break;
+    }
+    headers['X-Mastra-Request-Context'] = encode(valid);
+    return new Request(`http://localhost/context${query}`, { headers });
+  };
+
+  test('invalid sources are ignored with a warning', async () => {
+    await fc.assert(
+      fc.asyncProperty(invalidArb, viaArb, async (invalid, via) => {
+        const { app, warnings } = createApp(via, {
+          header: true,
+          cookie: { secrets },
+          maxSize: 128,
+        });
+        const valid = { locale: 'fr' };
+
+        const response = await app.handle(await invalidRequest(invalid, valid));
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual(invalid === 'oversized-header' ? {} : valid);
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toStartWith('Invalid requestContext');
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('strict mode rejects invalid sources with a 400 problem', async () => {
+    await fc.assert(
+      fc.asyncProperty(invalidArb, viaArb, async (invalid, via) => {
+        const { app, warnings } = createApp(via, {
+          header: true,
+          cookie: { secrets },
+          maxSize: 128,
+          strict: true,
+        });
+
+        const response = await app.handle(await invalidRequest(invalid, { locale: 'fr' }));
+        expect(response.status).toBe(400);
+        expect(response.headers.get('content-type')).toContain('application/problem+json');
+        expect(await response.json()).toMatchObject({
+          type: 'urn:elysia-mastra:problem:validation-error',
+          status: 400,
+          detail: expect.stringMatching(/^Invalid requestContext/),
+          instance: '/context',
+          requestId: 'req-1',
+        });
+        expect(warnings).toEqual([]);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
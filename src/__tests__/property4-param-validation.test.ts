@@ -8,6 +8,7 @@ import { describe, test, expect } from 'bun:test';
 import * as fc from 'fast-check';
 import { Elysia } from 'elysia';
 import { ElysiaServer } from '../server';
+import { PROBLEM_TYPES } from '../errors';
 import type { Mastra } from '@mastra/core/mastra';
 
 /**
@@ -86,9 +87,9 @@ describe('Property 4: Parameter Validation', () => {
 
         expect(response.status).toBe(400);
 
-        const body = (await response.json()) as { error: string; message: string };
-        expect(body.error).toBe('VALIDATION_ERROR');
-        expect(body.message).toBeDefined();
+        const body = (await response.json()) as { type: string; detail: string };
+        expect(body.type).toBe(PROBLEM_TYPES.validation);
+        expect(body.detail).toBeDefined();
 
         return true;
       }),
@@ -129,9 +130,9 @@ describe('Property 4: Parameter Validation', () => {
 
         expect(response.status).toBe(400);
 
-        const body = (await response.json()) as { error: string; message: string };
-        expect(body.error).toBe('VALIDATION_ERROR');
-        expect(body.message).toBeDefined();
+        const body = (await response.json()) as { type: string; detail: string };
+        expect(body.type).toBe(PROBLEM_TYPES.validation);
+        expect(body.detail).toBeDefined();
 
         return true;
       }),
@@ -172,9 +173,9 @@ describe('Property 4: Parameter Validation', () => {
 
         expect(response.status).toBe(400);
 
-        const body = (await response.json()) as { error: string; message: string };
-        expect(body.error).toBe('VALIDATION_ERROR');
-        expect(body.message).toBeDefined();
+        const body = (await response.json()) as { type: string; detail: string };
+        expect(body.type).toBe(PROBLEM_TYPES.validation);
+        expect(body.detail).toBeDefined();
 
         return true;
       }),
@@ -8,6 +8,7 @@ import { describe, test, expect } from 'bun:test';
 import * as fc from 'fast-check';
 import { Elysia } from 'elysia';
 import { ElysiaServer } from '../server';
+import { PROBLEM_TYPES } from '../errors';
 import type { Mastra } from '@mastra/core/mastra';
 
 /**
@@ -98,9 +99,9 @@ describe('Property 8: Error Status Codes', () => {
 
         expect(response.status).toBe(400);
 
-        const body = (await response.json()) as { error: string; message: string };
-        expect(body.error).toBe('VALIDATION_ERROR');
-        expect(body.message).toBeDefined();
+        const body = (await response.json()) as { type: string; detail: string };
+        expect(body.type).toBe(PROBLEM_TYPES.validation);
+        expect(body.detail).toBeDefined();
 
         return true;
       }),
@@ -135,8 +136,8 @@ describe('Property 8: Error Status Codes', () => {
 
         expect(response.status).toBe(400);
 
-        const body = (await response.json()) as { error: string };
-        expect(body.error).toBe('VALIDATION_ERROR');
+        const body = (await response.json()) as { type: string };
+        expect(body.type).toBe(PROBLEM_TYPES.validation);
 
         return true;
       }),
@@ -173,8 +174,8 @@ describe('Property 8: Error Status Codes', () => {
 
         expect(response.status).toBe(400);
 
-        const body = (await response.json()) as { error: string };
-        expect(body.error).toBe('VALIDATION_ERROR');
+        const body = (await response.json()) as { type: string };
+        expect(body.type).toBe(PROBLEM_TYPES.validation);
 
         return true;
       }),
@@ -207,9 +208,9 @@ describe('Property 8: Error Status Codes', () => {
 
         expect(response.status).toBe(500);
 
-        const body = (await response.json()) as { error: string; message: string };
-        expect(body.error).toBe('INTERNAL_ERROR');
-        expect(body.message).toBe('An unexpected error occurred');
+        const body = (await response.json()) as { type: string; detail: string };
+        expect(body.type).toBe(PROBLEM_TYPES.internal);
+        expect(body.detail).toBe('An unexpected error occurred');
 
         return true;
       }),
@@ -326,9 +327,9 @@ describe('Property 8: Error Status Codes', () => {
 
           expect(response.status).toBe(clientErrorStatus);
 
-          const body = (await response.json()) as { error: string; message: string };
-          expect(body.error).toBe('ERROR');
-          expect(body.message).toBe(errorMessage);
+          const body = (await response.json()) as { type: string; detail: string };
+          expect(body.type).toBe(PROBLEM_TYPES.generic);
+          expect(body.detail).toBe(errorMessage);
 
           return true;
         }
@@ -368,9 +369,9 @@ describe('Property 8: Error Status Codes', () => {
 
           expect(response.status).toBe(serverErrorStatus);
 
-          const body = (await response.json()) as { error: string; message: string };
-          expect(body.error).toBe('INTERNAL_ERROR');
-          expect(body.message).toBe('An unexpected error occurred');
+          const body = (await response.json()) as { type: string; detail: string };
+          expect(body.type).toBe(PROBLEM_TYPES.internal);
+          expect(body.detail).toBe('An unexpected error occurred');
 
           return true;
         }
@@ -420,12 +421,12 @@ describe('Property 8: Error Status Codes', () => {
           expect(response.status).toBe(400);
 
           const body = (await response.json()) as {
-            error: string;
-            details: Array<{ path: string[]; message: string }>;
+            type: string;
+            errors: Array<{ path: string[]; message: string }>;
           };
-          expect(body.error).toBe('VALIDATION_ERROR');
-          expect(body.details).toBeDefined();
-          expect(body.details).toEqual(issues);
+          expect(body.type).toBe(PROBLEM_TYPES.validation);
+          expect(body.errors).toBeDefined();
+          expect(body.errors).toEqual(issues);
 
           return true;
         }
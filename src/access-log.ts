@@ -0,0 +1,88 @@
+/**
+ * How a measured response body finished.
+ * - complete: the body was fully sent
+ * - cancelled: the client went away before the body was fully sent
+ * - error: reading the body failed
+ */
+export type BodyOutcome = 'complete' | 'cancelled' | 'error';
+
+/**
+ * Callbacks for {@link measureResponseBody}.
+ */
+interface BodyMeasureCallbacks {
+  /** Called when the first chunk is handed to the client */
+  onFirstByte: () => void;
+  /** Called once when the body closes, with the number of bytes sent */
+  onClose: (bytesSent: number, outcome: BodyOutcome) => void;
+}
+
+/**
+ * Wraps a Response so the bytes of its body are counted as they are read.
+ *
+ * Streamed bodies are reported when the stream closes, not when the Response
+ * is returned, so the close callback reflects how long the client was
+ * actually connected. Responses without a body close immediately.
+ */
+export function measureResponseBody(response: Response, callbacks: BodyMeasureCallbacks): Response {
+  if (!response.body) {
+    callbacks.onClose(0, 'complete');
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let bytesSent = 0;
+  let closed = false;
+
+  const close = (outcome: BodyOutcome) => {
+    if (!closed) {
+      closed = true;
+      callbacks.onClose(bytesSent, outcome);
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          controller.close();
+          close('complete');
+          return;
+        }
+
+        if (bytesSent === 0) {
+          callbacks.onFirstByte();
+        }
+        bytesSent += value.byteLength;
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+        close('error');
+      }
+    },
+    async cancel(reason) {
+      close('cancelled');
+      await reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Returns the serialized size in bytes of a value Elysia will send as the
+ * response body (strings as-is, everything else as JSON).
+ */
+export function serializedByteLength(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text === undefined ? 0 : new TextEncoder().encode(text).byteLength;
+}
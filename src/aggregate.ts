@@ -0,0 +1,97 @@
+import type { AggregatedStreamResult } from './types';
+
+type Chunk = Record<string, unknown>;
+
+/**
+ * Returns the fields of a chunk. Mastra chunks nest them under `payload`,
+ * AI SDK style chunks carry them on the chunk itself.
+ */
+function chunkFields(chunk: Chunk): Chunk {
+  const payload = chunk.payload;
+  return payload && typeof payload === 'object' ? (payload as Chunk) : chunk;
+}
+
+/**
+ * Returns an aggregated result before any chunk.
+ */
+export function emptyAggregate(): AggregatedStreamResult {
+  return { text: '', toolCalls: [], toolResults: [] };
+}
+
+/**
+ * Folds a single stream chunk into an aggregated result. Chunks that are
+ * not objects are ignored.
+ */
+export function aggregateChunk(result: AggregatedStreamResult, value: unknown): void {
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  const chunk = value as Chunk;
+  const fields = chunkFields(chunk);
+
+  switch (chunk.type) {
+    case 'text-delta': {
+      const text = fields.text ?? fields.textDelta;
+      if (typeof text === 'string') {
+        result.text += text;
+      }
+      break;
+    }
+
+    case 'tool-call':
+      result.toolCalls.push({
+        toolCallId: String(fields.toolCallId),
+        toolName: String(fields.toolName),
+        args: fields.args,
+      });
+      break;
+
+    case 'tool-result':
+      result.toolResults.push({
+        toolCallId: String(fields.toolCallId),
+        toolName: String(fields.toolName),
+        result: fields.result,
+        ...(fields.isError === undefined ? {} : { isError: Boolean(fields.isError) }),
+      });
+      break;
+
+    case 'finish': {
+      const output = fields.output as Chunk | undefined;
+      const stepResult = fields.stepResult as Chunk | undefined;
+      const usage = output?.usage ?? fields.usage ?? fields.totalUsage;
+      const finishReason = stepResult?.reason ?? fields.finishReason;
+
+      if (usage !== undefined) {
+        result.usage = usage;
+      }
+      if (typeof finishReason === 'string') {
+        result.finishReason = finishReason;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Reads a stream to the end and aggregates its chunks into a single result:
+ * the final text, tool calls and results, usage and finish reason.
+ *
+ * @param fullStream - The run's `fullStream`
+ * @param transform - Applied to each chunk before it is aggregated (e.g. redaction)
+ */
+export async function aggregateStream(
+  fullStream: ReadableStream,
+  transform: (chunk: unknown) => unknown = (chunk) => chunk
+): Promise<AggregatedStreamResult> {
+  const result = emptyAggregate();
+  const reader = fullStream.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return result;
+    }
+
+    aggregateChunk(result, transform(value));
+  }
+}
@@ -0,0 +1,70 @@
+import type { ChunkFilter } from './types';
+
+/**
+ * Query parameter read when `StreamOptions.chunkFilterParam` is not set.
+ */
+export const DEFAULT_CHUNK_FILTER_PARAM = 'chunks';
+
+/**
+ * Chunk types sent whatever the filters say, so a failed or aborted run
+ * never looks like a stream that ended cleanly.
+ */
+export const UNFILTERED_CHUNK_TYPES: readonly string[] = ['error', 'abort'];
+
+/**
+ * Parses a chunk filter query value: comma-separated chunk types to include,
+ * types prefixed with `-` to exclude, and `text` for the text projection.
+ */
+export function parseChunkFilter(value: string): ChunkFilter {
+  const filter: ChunkFilter = {};
+
+  for (const entry of value.split(',').map((part) => part.trim())) {
+    if (entry === 'text') {
+      filter.projection = 'text';
+    } else if (entry.startsWith('-') && entry.length > 1) {
+      (filter.exclude ??= []).push(entry.slice(1));
+    } else if (entry) {
+      (filter.include ??= []).push(entry);
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Returns the text of a `text-delta` chunk, nested under `payload` in
+ * Mastra chunks and on the chunk itself in AI SDK style chunks.
+ */
+function chunkText(chunk: Record<string, unknown>): unknown {
+  const payload = chunk.payload as Record<string, unknown> | undefined;
+  return payload?.text ?? chunk.text ?? chunk.textDelta;
+}
+
+/**
+ * Applies chunk filters to a stream chunk. Returns the chunk to send, which
+ * is reduced to `{ type, text }` under the text projection, or undefined
+ * when a filter drops it. `error` and `abort` chunks are always sent whole.
+ */
+export function filterChunk(chunk: unknown, filters: ChunkFilter[]): unknown {
+  const type = chunk && typeof chunk === 'object' ? (chunk as { type?: unknown }).type : undefined;
+  if (typeof type === 'string' && UNFILTERED_CHUNK_TYPES.includes(type)) {
+    return chunk;
+  }
+
+  for (const { include, exclude, projection } of filters) {
+    if (include && !(typeof type === 'string' && include.includes(type))) {
+      return undefined;
+    }
+    if (exclude && typeof type === 'string' && exclude.includes(type)) {
+      return undefined;
+    }
+    if (projection === 'text' && type !== 'text-delta') {
+      return undefined;
+    }
+  }
+
+  if (filters.some((filter) => filter.projection === 'text')) {
+    return { type, text: chunkText(chunk as Record<string, unknown>) };
+  }
+  return chunk;
+}
@@ -0,0 +1,241 @@
+import { promisify } from 'node:util';
+import {
+  brotliCompress,
+  constants,
+  createBrotliCompress,
+  createDeflate,
+  createGzip,
+  deflate,
+  gzip,
+  type BrotliCompress,
+  type BrotliOptions,
+  type Deflate,
+  type Gzip,
+} from 'node:zlib';
+import type { CompressionEncoding } from './types';
+
+/**
+ * Codings offered when `CompressionOptions.encodings` is not set. gzip comes
+ * first: browsers accept all three with the same quality, and gzip costs far
+ * less CPU than brotli for a similar ratio on JSON.
+ */
+export const DEFAULT_ENCODINGS: CompressionEncoding[] = ['gzip', 'br', 'deflate'];
+
+/**
+ * Brotli quality for responses. The zlib default of 11 is meant for static
+ * assets and takes seconds on multi-megabyte bodies; 5 compresses about as
+ * well as gzip's default at a similar speed.
+ */
+export const BROTLI_QUALITY = 5;
+
+const brotliOptions: BrotliOptions = {
+  params: { [constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY },
+};
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+
+/**
+ * Minimum body size compressed when `CompressionOptions.threshold` is not set.
+ */
+export const DEFAULT_THRESHOLD = 1024;
+
+/**
+ * Content types worth compressing: text, JSON (including ndjson, json-seq and
+ * `+json` types), JavaScript and XML. Images, audio and archives are already
+ * compressed.
+ */
+const COMPRESSIBLE_TYPE =
+  /^(text\/|application\/(json|x-ndjson|json-seq|javascript|xml)\b|application\/[\w.-]+\+(json|xml)\b)/i;
+
+/**
+ * Content types of live streams, which are compressed whatever their size:
+ * waiting for `threshold` bytes would hold back their first events.
+ */
+const STREAM_TYPE = /^(text\/event-stream|application\/(x-ndjson|json-seq))\b/i;
+
+/**
+ * Returns true when a response with this content type should be compressed.
+ */
+export function isCompressible(contentType: string | null): boolean {
+  return contentType !== null && COMPRESSIBLE_TYPE.test(contentType);
+}
+
+/**
+ * Returns true when a response with this content type is a live stream.
+ */
+export function isStreamType(contentType: string | null): boolean {
+  return contentType !== null && STREAM_TYPE.test(contentType);
+}
+
+/**
+ * Adds a field to a `Vary` header value unless it is already listed.
+ */
+export function appendVary(vary: string | null | undefined, field: string): string {
+  const fields = (vary ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (fields.some((entry) => entry === '*' || entry.toLowerCase() === field.toLowerCase())) {
+    return fields.join(', ');
+  }
+  return [...fields, field].join(', ');
+}
+
+/**
+ * Compresses a complete body in one go, on the zlib thread pool so large
+ * bodies do not block the event loop.
+ */
+export async function compressBytes(
+  bytes: Uint8Array,
+  encoding: CompressionEncoding
+): Promise<Uint8Array> {
+  switch (encoding) {
+    case 'br':
+      return brotliCompressAsync(bytes, brotliOptions);
+    case 'gzip':
+      return gzipAsync(bytes);
+    case 'deflate':
+      return deflateAsync(bytes);
+  }
+}
+
+function createCompressor(encoding: CompressionEncoding): BrotliCompress | Gzip | Deflate {
+  switch (encoding) {
+    case 'br':
+      return createBrotliCompress(brotliOptions);
+    case 'gzip':
+      return createGzip();
+    case 'deflate':
+      return createDeflate();
+  }
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Reads a body of unknown length until `threshold` bytes have arrived or it
+ * ends. Returns the whole body when it ended below the threshold, else a
+ * stream of the bytes read followed by the rest of the body.
+ */
+export async function readToThreshold(
+  body: ReadableStream<Uint8Array>,
+  threshold: number
+): Promise<{ bytes: Uint8Array } | { stream: ReadableStream<Uint8Array> }> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < threshold) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { bytes: concatChunks(chunks) };
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  return {
+    stream: new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk) {
+          controller.enqueue(chunk);
+          return;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
+  };
+}
+
+/**
+ * Compresses a streamed body, flushing the compressor after every source
+ * chunk so each event reaches the client as soon as it is produced instead
+ * of waiting for the compressor's buffer to fill.
+ *
+ * Cancelling the compressed stream cancels the source, and a compressor
+ * error errors it and cancels the source.
+ */
+export function compressStream(
+  body: ReadableStream<Uint8Array>,
+  encoding: CompressionEncoding
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const compressor = createCompressor(encoding);
+  const output: Uint8Array[] = [];
+  compressor.on('data', (chunk: Uint8Array) => output.push(chunk));
+
+  const flush = () =>
+    new Promise<void>((resolve) => {
+      // Brotli flushes by default; gzip and deflate need a sync flush to keep the stream open
+      if (encoding === 'br') {
+        compressor.flush(resolve);
+      } else {
+        compressor.flush(constants.Z_SYNC_FLUSH, resolve);
+      }
+    });
+
+  const end = () =>
+    new Promise<void>((resolve, reject) => {
+      compressor.once('end', resolve);
+      compressor.once('error', reject);
+      compressor.end();
+    });
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Listening from the start, as an 'error' event without a listener
+      // would be thrown, whether it comes from a write, a flush or the end
+      compressor.on('error', (error) => {
+        reader.cancel(error).catch(() => {});
+        controller.error(error);
+      });
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          await end();
+        } else {
+          compressor.write(value);
+          await flush();
+        }
+
+        if (output.length > 0) {
+          controller.enqueue(concatChunks(output.splice(0)));
+        }
+        if (done) {
+          controller.close();
+        }
+      } catch (error) {
+        compressor.destroy();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      compressor.destroy();
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,337 @@
+import type { Context } from 'elysia';
+import { unsignCookie } from 'elysia/utils';
+import { RequestContext } from '@mastra/core/request-context';
+import type { Mastra } from '@mastra/core/mastra';
+import type { ToolsInput } from '@mastra/core/agent';
+import type { InMemoryTaskStore } from '@mastra/server/a2a/store';
+import type {
+  MastraDeriveContext,
+  ProblemDetails,
+  RequestContextSchema,
+  RequestContextSourceOptions,
+  RequestContextUnknownKeys,
+  RequestIdOptions,
+  StructuredLogger,
+} from './types';
+import { REQUEST_ID_CONTEXT_KEY, REQUEST_ID_HEADER, resolveRequestId } from './request-id';
+import { validationProblem } from './errors';
+import { decodeBase64url, withoutTrustedKeys } from './trusted-context';
+
+/**
+ * Default header carrying base64url-encoded request context.
+ */
+export const REQUEST_CONTEXT_HEADER = 'X-Mastra-Request-Context';
+
+/**
+ * Default name of the signed cookie carrying request context.
+ */
+export const REQUEST_CONTEXT_COOKIE = 'mastra_request_context';
+
+/**
+ * Default maximum size of each request context source, in bytes.
+ */
+export const DEFAULT_REQUEST_CONTEXT_MAX_SIZE = 8 * 1024;
+
+/**
+ * A request context source's values, or why it is invalid.
+ */
+type SourceResult = { values: Record<string, unknown> } | { reason: string };
+
+/**
+ * A request context schema and the policy for keys it does not declare.
+ */
+export interface RequestContextValidation {
+  schema: RequestContextSchema<unknown>;
+  unknownKeys?: RequestContextUnknownKeys;
+  /**
+   * Only checks the keys present, e.g. when more values are merged and
+   * validated later
+   */
+  partial?: boolean;
+}
+
+/**
+ * Inputs for deriving the Mastra context of a request. Shared by the
+ * `mastra()` plugin and `ElysiaServer.registerContextMiddleware`, so both
+ * entry points attach the same context.
+ */
+export interface ContextDerivation {
+  mastra: Mastra;
+  tools?: ToolsInput;
+  taskStore?: InMemoryTaskStore;
+  requestIdOptions?: RequestIdOptions;
+  logger: StructuredLogger;
+  /** Where client-supplied request context is read from; the query parameter by default */
+  requestContextSources?: RequestContextSourceOptions;
+  /** Validates the client-supplied request context values */
+  requestContextValidation?: RequestContextValidation;
+  /**
+   * Keys filled from trusted sources, which client values can never set, and
+   * the values a request provides for them
+   */
+  trustedContext?: {
+    keys: ReadonlySet<string>;
+    values: (request: Request) => Record<string, unknown>;
+  };
+  /**
+   * Builds the request context from the client-supplied values. Defaults to
+   * copying them into a new RequestContext.
+   */
+  createRequestContext?: (values: Record<string, unknown> | undefined) => RequestContext;
+  /** Whether a client disconnect aborts the request's `abortSignal`; always by default */
+  abortOnDisconnect?: (request: Request) => boolean;
+}
+
+/**
+ * A request's derived context, and the controller behind its `abortSignal`.
+ */
+export interface DerivedContext {
+  context: MastraDeriveContext;
+  abortController: AbortController;
+  /** Set when the request context is invalid; the request should fail with it */
+  problem?: ProblemDetails;
+}
+
+/**
+ * Copies values into a new RequestContext.
+ */
+function toRequestContext(values: Record<string, unknown> | undefined): RequestContext {
+  const requestContext = new RequestContext();
+  for (const [key, value] of Object.entries(values ?? {})) {
+    requestContext.set(key, value);
+  }
+  return requestContext;
+}
+
+/**
+ * Creates the controller behind a request's `abortSignal`, aborted when the
+ * client disconnects unless `abortOnDisconnect` says otherwise at that time.
+ */
+function linkAbortSignal(
+  request: Request,
+  abortOnDisconnect: ContextDerivation['abortOnDisconnect']
+): AbortController {
+  const abortController = new AbortController();
+
+  if ('signal' in request && request.signal instanceof AbortSignal) {
+    if (request.signal.aborted) {
+      abortController.abort(request.signal.reason);
+    } else {
+      request.signal.addEventListener(
+        'abort',
+        () => {
+          if (abortOnDisconnect?.(request) ?? true) {
+            abortController.abort(request.signal.reason);
+          }
+        },
+        { once: true }
+      );
+    }
+  }
+
+  return abortController;
+}
+
+/**
+ * Parses a source's JSON, which must be an object.
+ */
+function parseContextJson(json: string): SourceResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return { reason: 'malformed JSON' };
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? { values: value as Record<string, unknown> }
+    : { reason: 'not a JSON object' };
+}
+
+/**
+ * Parses base64url-encoded JSON.
+ */
+function parseEncodedContext(value: string): SourceResult {
+  const json = decodeBase64url(value);
+  return json === undefined ? { reason: 'malformed base64url' } : parseContextJson(json);
+}
+
+/**
+ * Returns the raw value of a request cookie.
+ */
+function readCookie(request: Request, name: string): string | undefined {
+  for (const pair of request.headers.get('cookie')?.split(';') ?? []) {
+    const index = pair.indexOf('=');
+    if (index > 0 && pair.slice(0, index).trim() === name) {
+      return pair.slice(index + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Verifies a signed cookie against each secret, then parses its value.
+ */
+async function parseSignedCookie(raw: string, secrets: string | string[]): Promise<SourceResult> {
+  let cookie: string;
+  try {
+    cookie = decodeURIComponent(raw);
+  } catch {
+    return { reason: 'malformed cookie' };
+  }
+
+  for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+    const value = await unsignCookie(cookie, secret).catch(() => false as const);
+    if (value !== false) {
+      return parseEncodedContext(value);
+    }
+  }
+  return { reason: 'invalid signature' };
+}
+
+/**
+ * Reads the client-supplied request context: the header, query parameter and
+ * signed cookie that are enabled, merged in that order, so that unsigned
+ * sources cannot override the cookie's keys.
+ *
+ * Invalid sources are logged and ignored, or, in strict mode, make the
+ * request invalid: `invalid` then says why.
+ */
+async function readRequestContext(
+  request: Request,
+  options: RequestContextSourceOptions,
+  logger: StructuredLogger,
+  requestId: string
+): Promise<{ values?: Record<string, unknown>; invalid?: string }> {
+  const { cookie, header, maxSize = DEFAULT_REQUEST_CONTEXT_MAX_SIZE } = options;
+  const headerName = header === true ? REQUEST_CONTEXT_HEADER : header || undefined;
+  const sources: [string, string | null | undefined, (raw: string) => Promise<SourceResult>][] = [
+    [
+      'header',
+      headerName && request.headers.get(headerName),
+      async (raw) => parseEncodedContext(raw),
+    ],
+    [
+      'query parameter',
+      options.query === false ? undefined : new URL(request.url).searchParams.get('requestContext'),
+      async (raw) => parseContextJson(raw),
+    ],
+    [
+      'cookie',
+      cookie && readCookie(request, cookie.name ?? REQUEST_CONTEXT_COOKIE),
+      (raw) => parseSignedCookie(raw, cookie?.secrets ?? []),
+    ],
+  ];
+
+  let values: Record<string, unknown> | undefined;
+  for (const [source, raw, parse] of sources) {
+    if (!raw) {
+      continue;
+    }
+
+    const result =
+      new TextEncoder().encode(raw).byteLength > maxSize
+        ? { reason: `larger than ${maxSize} bytes` }
+        : await parse(raw);
+    if ('reason' in result) {
+      if (options.strict) {
+        return { invalid: `Invalid requestContext ${source}: ${result.reason}` };
+      }
+      logger.warn(`Invalid requestContext ${source}`, { requestId, reason: result.reason });
+      continue;
+    }
+
+    values = { ...values, ...result.values };
+  }
+
+  return { values };
+}
+
+/**
+ * Validates and coerces client-supplied request context values, dropping or
+ * rejecting the keys the schema does not declare.
+ *
+ * The error is a 400 with a short message and the schema's issues, rather
+ * than the schema's own error, whose message repeats the issues.
+ */
+export function validateRequestContext(
+  values: Record<string, unknown>,
+  validation: RequestContextValidation
+): { success: true; data: Record<string, unknown> } | { success: false; error: unknown } {
+  let schema =
+    validation.unknownKeys === 'reject' ? validation.schema.strict() : validation.schema.strip();
+  if (validation.partial) {
+    schema = schema.partial();
+  }
+
+  const result = schema.safeParse(values);
+  return result.success
+    ? { success: true, data: result.data as Record<string, unknown> }
+    : {
+        success: false,
+        error: Object.assign(new Error('Invalid requestContext'), {
+          status: 400,
+          issues: result.error.issues,
+        }),
+      };
+}
+
+/**
+ * Derives the Mastra context of a request: resolves the request id (echoing
+ * it in the response headers), links the `abortSignal` to the request and
+ * builds the request context from the client-supplied values, validated
+ * against the schema if there is one, and the trusted values.
+ */
+export async function deriveMastraContext(
+  request: Request,
+  set: Context['set'],
+  derivation: ContextDerivation
+): Promise<DerivedContext> {
+  const { requestIdOptions = {}, logger } = derivation;
+  const requestId = resolveRequestId(request, requestIdOptions);
+  set.headers[requestIdOptions.header ?? REQUEST_ID_HEADER] = requestId;
+
+  const abortController = linkAbortSignal(request, derivation.abortOnDisconnect);
+
+  const { trustedContext } = derivation;
+  const { invalid, ...read } = await readRequestContext(
+    request,
+    derivation.requestContextSources ?? {},
+    logger,
+    requestId
+  );
+  let values = trustedContext ? withoutTrustedKeys(read.values, trustedContext.keys) : read.values;
+
+  let problem: ProblemDetails | undefined;
+  if (invalid) {
+    values = undefined;
+    problem = validationProblem({ message: invalid }, new URL(request.url).pathname, requestId);
+  } else if (derivation.requestContextValidation) {
+    const result = validateRequestContext(values ?? {}, derivation.requestContextValidation);
+    if (result.success) {
+      values = result.data;
+    } else {
+      values = undefined;
+      problem = validationProblem(result.error, new URL(request.url).pathname, requestId);
+    }
+  }
+
+  const createRequestContext = derivation.createRequestContext ?? toRequestContext;
+  const requestContext = createRequestContext(values);
+  for (const [key, value] of Object.entries(trustedContext?.values(request) ?? {})) {
+    requestContext.set(key, value);
+  }
+  requestContext.set(REQUEST_ID_CONTEXT_KEY, requestId);
+
+  return {
+    context: {
+      mastra: derivation.mastra,
+      requestContext,
+      tools: derivation.tools ?? {},
+      abortSignal: abortController.signal,
+      taskStore: derivation.taskStore,
+      requestId,
+    },
+    abortController,
+    problem,
+  };
+}
@@ -0,0 +1,165 @@
+import { InvertedStatusMap, type Context } from 'elysia';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+import type {
+  ErrorMapperResult,
+  ProblemDetails,
+  RequestIdOptions,
+  StreamErrorEvent,
+} from './types';
+import { resolveRequestId } from './request-id';
+
+/**
+ * Content type for RFC 9457 problem details responses.
+ */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Stable problem `type` URIs used by the default error mapper.
+ * Errors without a more specific type use `about:blank`, whose title is the
+ * HTTP status phrase (RFC 9457, section 4.2.1).
+ */
+export const PROBLEM_TYPES = {
+  validation: 'urn:elysia-mastra:problem:validation-error',
+  internal: 'urn:elysia-mastra:problem:internal-error',
+  generic: 'about:blank',
+} as const;
+
+/**
+ * Shape of errors thrown by Mastra handlers, Zod and HTTPException.
+ */
+interface RouteErrorLike {
+  status?: number;
+  code?: unknown;
+  details?: { status?: number };
+  message?: string;
+  name?: string;
+  issues?: unknown[];
+  errors?: unknown[];
+}
+
+/**
+ * Returns the request id for a request, preferring the one derived by the
+ * context middleware. Without one, the id is resolved from the request as
+ * the middleware would with these options: a trusted, well-formed incoming
+ * id, or a new one.
+ */
+export function getRequestId(context: Context, options: RequestIdOptions = {}): string {
+  const derived = (context as unknown as { requestId?: unknown }).requestId;
+  if (typeof derived === 'string' && derived) {
+    return derived;
+  }
+
+  return resolveRequestId(context.request, options);
+}
+
+/**
+ * Default error mapper producing RFC 9457 `application/problem+json` responses.
+ *
+ * - Zod errors and errors with status 400 become validation problems, with
+ *   the validation issues in `errors`
+ * - Errors with an explicit `status` or `details.status` keep that status
+ * - Everything else is a 500 with the detail hidden
+ *
+ * Can be called from a custom `errorMapper` to fall back to the default shape.
+ *
+ * @example
+ * ```typescript
+ * new ElysiaServer({
+ *   app,
+ *   mastra,
+ *   errorMapper: (error, route, context) => {
+ *     if (error instanceof QuotaExceededError) {
+ *       return { status: 429, body: { error: 'QUOTA_EXCEEDED' } };
+ *     }
+ *     return defaultErrorMapper(error, route, context);
+ *   },
+ * });
+ * ```
+ */
+export function defaultErrorMapper(
+  error: unknown,
+  _route: ServerRoute,
+  context: Context
+): ErrorMapperResult {
+  const err = (error ?? {}) as RouteErrorLike;
+
+  const isValidationError =
+    err.name === 'ZodError' || err.status === 400 || err.details?.status === 400;
+
+  const status = err.status ?? err.details?.status ?? (isValidationError ? 400 : 500);
+
+  const problem: ProblemDetails = {
+    type: PROBLEM_TYPES.generic,
+    title: InvertedStatusMap[status as keyof typeof InvertedStatusMap] ?? 'Error',
+    status,
+    instance: new URL(context.request.url).pathname,
+    requestId: getRequestId(context),
+  };
+
+  if (isValidationError) {
+    problem.type = PROBLEM_TYPES.validation;
+    problem.title = 'Validation Error';
+    problem.detail = err.message || 'Validation failed';
+    problem.errors = err.issues ?? err.errors ?? undefined;
+  } else if (status >= 500) {
+    // Hide internal details from clients
+    problem.type = PROBLEM_TYPES.internal;
+    problem.detail = 'An unexpected error occurred';
+  } else {
+    problem.detail = err.message || 'An error occurred';
+  }
+
+  return {
+    status,
+    body: problem,
+    headers: { 'Content-Type': PROBLEM_CONTENT_TYPE },
+  };
+}
+
+/**
+ * Builds the problem details of a validation error, such as a `ZodError`,
+ * like `defaultErrorMapper` does.
+ */
+export function validationProblem(
+  error: unknown,
+  instance: string,
+  requestId: string
+): ProblemDetails {
+  const err = (error ?? {}) as RouteErrorLike;
+  return {
+    type: PROBLEM_TYPES.validation,
+    title: 'Validation Error',
+    status: 400,
+    detail: err.message || 'Validation failed',
+    instance,
+    requestId,
+    errors: err.issues ?? err.errors ?? undefined,
+  };
+}
+
+/**
+ * Builds the terminal event sent when a stream's source fails, keeping only
+ * a code and a message so provider errors cannot leak request bodies, URLs
+ * or headers to the client.
+ *
+ * - `code` is the error's own string code (e.g. from a provider SDK), or
+ *   `stream_error`
+ * - With `redact`, only errors with a 4xx status keep their message, like
+ *   problem details responses; other messages are hidden
+ */
+export function streamErrorEvent(
+  error: unknown,
+  options: { redact: boolean; requestId?: string }
+): StreamErrorEvent {
+  const err = (error ?? {}) as RouteErrorLike;
+  const status = err.status ?? err.details?.status;
+  const isClientError = status !== undefined && status >= 400 && status < 500;
+  const message = typeof err.message === 'string' && err.message ? err.message : undefined;
+
+  return {
+    code: typeof err.code === 'string' && err.code ? err.code : 'stream_error',
+    message:
+      message && (!options.redact || isClientError) ? message : 'An unexpected error occurred',
+    ...(options.requestId ? { requestId: options.requestId } : {}),
+  };
+}
@@ -2,4 +2,12 @@ export * from './types';
 
 export { ElysiaServer } from './server';
 
-export { mastra, withMastra } from './plugin';
+export { createMemoryReplayStore } from './replay';
+
+export { PII_PATTERNS } from './redaction';
+
+export { createConsoleJsonLogger, createPinoLogger, toStructuredLogger } from './logger';
+
+export { defaultErrorMapper, PROBLEM_CONTENT_TYPE, PROBLEM_TYPES } from './errors';
+
+export { mastra, mastraServer, withMastra } from './plugin';
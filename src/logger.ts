@@ -0,0 +1,190 @@
+import type {
+  ConsoleJsonLoggerOptions,
+  LogFields,
+  LogLevel,
+  MastraLogger,
+  PinoLikeLogger,
+  StructuredLogger,
+} from './types';
+
+const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.BUN_ENV === 'test';
+
+/**
+ * Formats log fields as a `key=value` suffix for console output.
+ */
+function formatLogFields(fields?: LogFields): string {
+  if (!fields) {
+    return '';
+  }
+
+  const parts = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`);
+
+  return parts.length > 0 ? ` (${parts.join(' ')})` : '';
+}
+
+/**
+ * Default console logger. Silent in test environments.
+ */
+export const defaultLogger: MastraLogger = {
+  error: (message: string, error?: unknown, fields?: LogFields) => {
+    if (!isTestEnvironment) {
+      console.error(`[ElysiaServer] ${message}${formatLogFields(fields)}`, error ?? '');
+    }
+  },
+  warn: (message: string, fields?: LogFields) => {
+    if (!isTestEnvironment) {
+      console.warn(`[ElysiaServer] ${message}${formatLogFields(fields)}`);
+    }
+  },
+  info: (message: string, fields?: LogFields) => {
+    if (!isTestEnvironment) {
+      console.info(`[ElysiaServer] ${message}${formatLogFields(fields)}`);
+    }
+  },
+  debug: (message: string, fields?: LogFields) => {
+    if (!isTestEnvironment) {
+      console.debug(`[ElysiaServer] ${message}${formatLogFields(fields)}`);
+    }
+  },
+};
+
+/**
+ * Returns true for loggers that implement `child()`.
+ */
+function isStructuredLogger(logger: MastraLogger): logger is StructuredLogger {
+  return typeof (logger as Partial<StructuredLogger>).child === 'function';
+}
+
+/**
+ * Merges child bindings with call fields. Call fields win.
+ */
+function mergeFields(bindings: LogFields, fields?: LogFields): LogFields | undefined {
+  if (Object.keys(bindings).length === 0) {
+    return fields;
+  }
+  return { ...bindings, ...fields };
+}
+
+/**
+ * Wraps a MastraLogger so it supports `child()`.
+ * Child bindings are merged into the fields of every call. Loggers that
+ * already implement `child()` are used directly.
+ *
+ * @param logger - Any MastraLogger, including ones that ignore fields
+ * @param bindings - Fields to attach to every call
+ */
+export function toStructuredLogger(
+  logger: MastraLogger,
+  bindings: LogFields = {}
+): StructuredLogger {
+  if (isStructuredLogger(logger)) {
+    return Object.keys(bindings).length === 0 ? logger : logger.child(bindings);
+  }
+
+  return {
+    error: (message, error, fields) => logger.error(message, error, mergeFields(bindings, fields)),
+    warn: (message, fields) => logger.warn(message, mergeFields(bindings, fields)),
+    info: (message, fields) => logger.info(message, mergeFields(bindings, fields)),
+    debug: logger.debug
+      ? (message, fields) => logger.debug?.(message, mergeFields(bindings, fields))
+      : undefined,
+    child: (childBindings) => toStructuredLogger(logger, { ...bindings, ...childBindings }),
+  };
+}
+
+/**
+ * Serializes an error for JSON output, keeping name, message and stack.
+ */
+function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return error;
+}
+
+const levelOrder: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const consoleWriters: Record<LogLevel, (line: string) => void> = {
+  debug: (line) => console.debug(line),
+  info: (line) => console.info(line),
+  warn: (line) => console.warn(line),
+  error: (line) => console.error(line),
+};
+
+/**
+ * Creates a logger that writes one JSON object per line, suitable for log
+ * collectors that parse structured stdout/stderr.
+ *
+ * Each line has `level`, `time` (ISO 8601), `msg`, the bindings and the call
+ * fields. Errors are serialized under `err`.
+ *
+ * @example
+ * ```typescript
+ * new ElysiaServer({
+ *   app,
+ *   mastra,
+ *   logger: createConsoleJsonLogger({ level: 'debug', bindings: { service: 'agents' } }),
+ * });
+ * // {"level":"error","time":"...","msg":"Route error","service":"agents","requestId":"...","err":{...}}
+ * ```
+ */
+export function createConsoleJsonLogger(options: ConsoleJsonLoggerOptions = {}): StructuredLogger {
+  const {
+    level: minLevel = 'info',
+    bindings = {},
+    write = (line: string, level: LogLevel) => consoleWriters[level](line),
+  } = options;
+
+  const log = (level: LogLevel, message: string, fields?: LogFields, error?: unknown) => {
+    if (levelOrder[level] < levelOrder[minLevel]) {
+      return;
+    }
+
+    const line: Record<string, unknown> = {
+      level,
+      time: new Date().toISOString(),
+      msg: message,
+      ...bindings,
+      ...fields,
+    };
+    if (error !== undefined) {
+      line.err = serializeError(error);
+    }
+
+    write(JSON.stringify(line), level);
+  };
+
+  return {
+    error: (message, error, fields) => log('error', message, fields, error),
+    warn: (message, fields) => log('warn', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    debug: (message, fields) => log('debug', message, fields),
+    child: (childBindings) =>
+      createConsoleJsonLogger({ ...options, bindings: { ...bindings, ...childBindings } }),
+  };
+}
+
+/**
+ * Adapts a pino (or pino-compatible) logger. Fields are passed as the merge
+ * object and errors under `err`, so pino's standard error serializer applies.
+ * `child()` maps to pino's own child loggers.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * new ElysiaServer({ app, mastra, logger: createPinoLogger(pino()) });
+ * ```
+ */
+export function createPinoLogger(pino: PinoLikeLogger): StructuredLogger {
+  return {
+    error: (message, error, fields) =>
+      pino.error(error === undefined ? { ...fields } : { ...fields, err: error }, message),
+    warn: (message, fields) => pino.warn({ ...fields }, message),
+    info: (message, fields) => pino.info({ ...fields }, message),
+    debug: (message, fields) => pino.debug({ ...fields }, message),
+    child: (bindings) => createPinoLogger(pino.child(bindings)),
+  };
+}
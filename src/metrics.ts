@@ -0,0 +1,228 @@
+import type { MetricsOptions } from './types';
+
+/**
+ * Default latency histogram buckets, in seconds. The upper buckets cover
+ * long-running agent streams.
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120,
+];
+
+/** Content type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Content type of the OpenMetrics text exposition format */
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+type Labels = Record<string, string | number>;
+
+/**
+ * Escapes a label value for the text exposition formats.
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Renders labels as `{name="value",...}`, or an empty string without labels.
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(',')}}`;
+}
+
+/**
+ * A metric family that renders itself in the text exposition formats.
+ */
+interface Metric {
+  render(openMetrics: boolean): string[];
+}
+
+/**
+ * Monotonic counter. Samples are exposed with a `_total` suffix.
+ */
+class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: Labels): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + 1);
+  }
+
+  render(openMetrics: boolean): string[] {
+    // OpenMetrics names the family without the suffix, Prometheus with it
+    const family = openMetrics ? this.name : `${this.name}_total`;
+    const lines = [`# HELP ${family} ${this.help}`, `# TYPE ${family} counter`];
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}_total${key} ${value}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Gauge that can go up and down.
+ */
+class Gauge implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {}
+
+  add(labels: Labels, by: number): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${key} ${value}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Histogram with fixed buckets. Bucket counts are rendered cumulatively.
+ */
+class Histogram implements Metric {
+  private readonly values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let current = this.values.get(key);
+    if (!current) {
+      current = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, current);
+    }
+
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      current.counts[index] = (current.counts[index] ?? 0) + 1;
+    }
+    current.sum += value;
+    current.count += 1;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += counts[index] ?? 0;
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * In-process metrics collected by ElysiaServer.
+ *
+ * Routes are labelled by their Mastra route pattern (e.g.
+ * `/api/agents/:agentId/stream`), never by the concrete path, so label
+ * cardinality stays bounded by the number of registered routes.
+ */
+export class AdapterMetrics {
+  private readonly requests: Counter;
+  private readonly requestDuration: Histogram;
+  private readonly streamsInFlight: Gauge;
+  private readonly streamChunks: Counter;
+  private readonly authFailures: Counter;
+  private readonly bodyLimitRejections: Counter;
+
+  constructor(options: MetricsOptions = {}) {
+    const prefix = options.namePrefix ?? 'mastra_';
+    const buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+
+    this.requests = new Counter(`${prefix}http_requests`, 'Mastra route requests handled.');
+    this.requestDuration = new Histogram(
+      `${prefix}http_request_duration_seconds`,
+      'Mastra route latency in seconds, until the response body closed.',
+      buckets
+    );
+    this.streamsInFlight = new Gauge(`${prefix}streams_in_flight`, 'Streams currently open.');
+    this.streamChunks = new Counter(`${prefix}stream_chunks`, 'Stream chunks sent to clients.');
+    this.authFailures = new Counter(
+      `${prefix}auth_failures`,
+      'Requests rejected by authentication (401) or authorization (403).'
+    );
+    this.bodyLimitRejections = new Counter(
+      `${prefix}body_limit_rejections`,
+      'Requests rejected for exceeding the body size limit.'
+    );
+  }
+
+  /** Records a completed Mastra route request */
+  observeRequest(method: string, route: string, status: number, durationSeconds: number): void {
+    const labels = { method, route, status };
+    this.requests.inc(labels);
+    this.requestDuration.observe(labels, durationSeconds);
+  }
+
+  /** Records a stream opening (+1) or closing (-1) */
+  trackStream(route: string, delta: 1 | -1): void {
+    this.streamsInFlight.add({ route }, delta);
+  }
+
+  /** Records a chunk sent on a stream */
+  countStreamChunk(route: string): void {
+    this.streamChunks.inc({ route });
+  }
+
+  /** Records a request rejected with 401 or 403 */
+  countAuthFailure(method: string, route: string, status: 401 | 403): void {
+    this.authFailures.inc({ method, route, status });
+  }
+
+  /** Records a request rejected with 413 */
+  countBodyLimitRejection(method: string, route: string): void {
+    this.bodyLimitRejections.inc({ method, route });
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text format, or in the OpenMetrics
+   * text format when `openMetrics` is true.
+   */
+  render(openMetrics = false): string {
+    const metrics: Metric[] = [
+      this.requests,
+      this.requestDuration,
+      this.streamsInFlight,
+      this.streamChunks,
+      this.authFailures,
+      this.bodyLimitRejections,
+    ];
+
+    const lines = metrics.flatMap((metric) => metric.render(openMetrics));
+    if (openMetrics) {
+      lines.push('# EOF');
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
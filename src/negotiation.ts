@@ -0,0 +1,84 @@
+/**
+ * Content negotiation helpers for `Accept` and `Accept-Encoding` headers.
+ */
+
+interface MediaRange {
+  type: string;
+  q: number;
+}
+
+/**
+ * Parses an `Accept` header into media ranges with their quality values.
+ * Parameters other than `q` are ignored; malformed q values count as 1.
+ */
+function parseAccept(header: string): MediaRange[] {
+  return header
+    .split(',')
+    .map((part) => {
+      const [type = '', ...params] = part.split(';').map((segment) => segment.trim());
+      const qParam = params.find((param) => param.toLowerCase().startsWith('q='));
+      const q = qParam === undefined ? 1 : Number(qParam.slice(2));
+      return { type: type.toLowerCase(), q: Number.isFinite(q) ? q : 1 };
+    })
+    .filter((range) => range.type !== '');
+}
+
+/**
+ * Returns the candidate media type the client prefers, by quality value and
+ * then header order, or undefined when the header names none of them.
+ *
+ * Only explicitly listed types count: wildcards such as `*\/*` express no
+ * preference, so callers fall back to their configured default.
+ *
+ * @param header - The `Accept` header value
+ * @param candidates - Media types the server can produce
+ */
+export function preferredMediaType<T extends string>(
+  header: string | null | undefined,
+  candidates: readonly T[]
+): T | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  let best: { candidate: T; q: number } | undefined;
+  for (const range of parseAccept(header)) {
+    const candidate = candidates.find((type) => type.toLowerCase() === range.type);
+    if (candidate && range.q > 0 && (!best || range.q > best.q)) {
+      best = { candidate, q: range.q };
+    }
+  }
+
+  return best?.candidate;
+}
+
+/**
+ * Returns the content coding to compress with: the candidate with the highest
+ * quality value in an `Accept-Encoding` header, ties going to the earlier
+ * candidate. A `*` entry covers candidates not listed explicitly. Returns
+ * undefined when the client accepts none of them.
+ *
+ * @param header - The `Accept-Encoding` header value
+ * @param candidates - Codings the server supports, in order of preference
+ */
+export function preferredEncoding<T extends string>(
+  header: string | null | undefined,
+  candidates: readonly T[]
+): T | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const ranges = parseAccept(header);
+  const wildcard = ranges.find((range) => range.type === '*');
+
+  let best: { candidate: T; q: number } | undefined;
+  for (const candidate of candidates) {
+    const range = ranges.find((entry) => entry.type === candidate.toLowerCase()) ?? wildcard;
+    if (range && range.q > 0 && (!best || range.q > best.q)) {
+      best = { candidate, q: range.q };
+    }
+  }
+
+  return best?.candidate;
+}
@@ -1,6 +1,14 @@
-import { Elysia } from 'elysia';
-import { RequestContext } from '@mastra/core/request-context';
-import type { MastraPluginOptions, MastraDeriveContext } from './types';
+import { Elysia, status, type AnyElysia } from 'elysia';
+import type {
+  ElysiaWithMastra,
+  MastraDeriveContext,
+  MastraPluginOptions,
+  MastraServerPluginOptions,
+} from './types';
+import { deriveMastraContext, type ContextDerivation } from './context';
+import { PROBLEM_CONTENT_TYPE } from './errors';
+import { defaultLogger, toStructuredLogger } from './logger';
+import { ElysiaServer } from './server';
 
 /**
  * Creates an Elysia plugin that adds Mastra context to all routes.
@@ -8,9 +16,17 @@ import type { MastraPluginOptions, MastraDeriveContext } from './types';
  * This is the recommended way to use Mastra with Elysia when you want
  * automatic type inference without manually typing each handler.
  *
+ * The context is derived exactly as `ElysiaServer.registerContextMiddleware`
+ * derives it. To also register Mastra's routes, auth and limits, use
+ * `mastraServer()`.
+ *
+ * `TUser` types `ctx.user` when an `ElysiaServer` on the same app
+ * authenticates requests. `TContext`, the output of `requestContextSchema`,
+ * types `ctx.requestContext`.
+ *
  * @example
  * ```typescript
- * import { Elysia } from 'elysia';
+ * import { Elysia, type AnyElysia } from 'elysia';
  * import { Mastra } from '@mastra/core';
  * import { mastra } from 'elysia-mastra';
  *
@@ -25,56 +41,30 @@ import type { MastraPluginOptions, MastraDeriveContext } from './types';
  *   .listen(3000);
  * ```
  */
-export function mastra(options: MastraPluginOptions) {
-  const { mastra: mastraInstance, tools = {}, taskStore } = options;
-
-  return new Elysia({ name: 'mastra' }).derive(
-    { as: 'global' },
-    ({ request }): MastraDeriveContext => {
-      // Create AbortController and connect to request lifecycle
-      const abortController = new AbortController();
-
-      if ('signal' in request && request.signal instanceof AbortSignal) {
-        if (request.signal.aborted) {
-          abortController.abort(request.signal.reason);
-        } else {
-          request.signal.addEventListener(
-            'abort',
-            () => {
-              abortController.abort(request.signal.reason);
-            },
-            { once: true }
-          );
-        }
-      }
-
-      let paramsRequestContext: Record<string, unknown> | undefined;
-      try {
-        const url = new URL(request.url);
-        const rcParam = url.searchParams.get('requestContext');
-        if (rcParam) {
-          paramsRequestContext = JSON.parse(rcParam);
-        }
-      } catch {
-        // Invalid JSON - ignore
-      }
+export function mastra<TUser = unknown, TContext = unknown>(
+  options: MastraPluginOptions<TContext>
+): ElysiaWithMastra<TUser, TContext> {
+  const derivation: ContextDerivation = {
+    mastra: options.mastra,
+    tools: options.tools,
+    taskStore: options.taskStore,
+    requestIdOptions: options.requestIdOptions,
+    logger: toStructuredLogger(options.logger ?? defaultLogger),
+    requestContextSources: options.requestContextSources,
+    requestContextValidation: options.requestContextSchema && {
+      schema: options.requestContextSchema,
+      unknownKeys: options.requestContextUnknownKeys,
+    },
+  };
 
-      const requestContext = new RequestContext();
-      if (paramsRequestContext) {
-        for (const [key, value] of Object.entries(paramsRequestContext)) {
-          requestContext.set(key, value);
-        }
-      }
-
-      return {
-        mastra: mastraInstance,
-        requestContext,
-        tools,
-        abortSignal: abortController.signal,
-        taskStore,
-      };
+  return new Elysia({ name: 'mastra' }).derive({ as: 'global' }, async ({ request, set }) => {
+    const { context, problem } = await deriveMastraContext(request, set, derivation);
+    if (problem) {
+      set.headers['Content-Type'] = PROBLEM_CONTENT_TYPE;
+      return status(400, problem);
     }
-  );
+    return context as MastraDeriveContext;
+  }) as unknown as ElysiaWithMastra<TUser, TContext>;
 }
 
 /**
@@ -83,7 +73,7 @@ export function mastra(options: MastraPluginOptions) {
  *
  * @example
  * ```typescript
- * import { Elysia } from 'elysia';
+ * import { Elysia, type AnyElysia } from 'elysia';
  * import { withMastra } from 'elysia-mastra';
  *
  * const app = new Elysia()
@@ -92,3 +82,41 @@ export function mastra(options: MastraPluginOptions) {
  * ```
  */
 export const withMastra = mastra;
+
+/**
+ * Creates an Elysia plugin running a full `ElysiaServer` on the app that
+ * uses it: body limits, context and auth middleware, all Mastra routes and
+ * the optional metrics, run and WebSocket endpoints, as `init()` registers
+ * them.
+ *
+ * Like `ElysiaServer` itself, the middleware also applies to the routes the
+ * app defines after using the plugin, whose handlers get the Mastra context
+ * with full type inference, `ctx.user` being the user type
+ * `auth.authenticateToken` resolves to. The middleware and Mastra's routes
+ * are registered right away; `listen()` and `await app.modules` wait for the
+ * rest.
+ *
+ * @example
+ * ```typescript
+ * import { Elysia, type AnyElysia } from 'elysia';
+ * import { mastraServer } from 'elysia-mastra';
+ *
+ * const app = new Elysia()
+ *   .use(mastraServer({ mastra: mastraInstance, prefix: '/api' }))
+ *   .get('/me', ({ user, requestContext }) => ({ user }))
+ *   .listen(3000);
+ * ```
+ */
+export function mastraServer<TUser = unknown, TContext = unknown>(
+  options: MastraServerPluginOptions<TUser, TContext>
+) {
+  return (app: AnyElysia) => {
+    const server = new ElysiaServer<TUser, TContext>({ ...options, app });
+
+    // init() registers the middleware and Mastra's routes before it first
+    // yields; the app awaits it as a lazy module for the remaining routes
+    return app.use(
+      server.init().then(() => (parent: AnyElysia) => parent)
+    ) as unknown as ElysiaWithMastra<TUser, TContext>;
+  };
+}
@@ -0,0 +1,144 @@
+import type { PiiPattern, RedactionContext, RedactionOptions } from './types';
+
+/**
+ * Patterns scrubbed by `RedactionOptions.pii`.
+ *
+ * - `email`: email addresses
+ * - `phone`: international and national phone numbers with at least 9 digits
+ * - `apiKey`: common secret key formats (`sk-...`, `pk_live_...`, AWS access
+ *   key ids, GitHub tokens) and bearer tokens
+ */
+export const PII_PATTERNS: Record<PiiPattern, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /(?<![\w+])\+?\d(?:[\s().-]?\d){8,14}(?!\w)/g,
+  apiKey:
+    /\b(?:sk|pk|rk)[-_](?:(?:live|test|proj|ant)[-_])?[A-Za-z0-9_-]{16,}|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36,}\b|\bBearer\s+[A-Za-z0-9._~+/-]+=*/g,
+};
+
+const DEFAULT_MASK = '[REDACTED]';
+
+type PathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'any' }
+  | { kind: 'deep'; key: string | undefined };
+
+/**
+ * Parses a JSON path such as `$.payload.args[*].email` or `$..apiKey` into
+ * segments. Brackets are read as dotted segments.
+ */
+function parsePath(path: string): PathSegment[] {
+  const normalized = path
+    .trim()
+    .replace(/^\$/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1');
+
+  const segments: PathSegment[] = [];
+  for (const [, separator, key = ''] of normalized.matchAll(/(\.\.|\.|^)([^.]+)/g)) {
+    if (separator === '..') {
+      segments.push({ kind: 'deep', key: key === '*' ? undefined : key });
+    } else {
+      segments.push(key === '*' ? { kind: 'any' } : { kind: 'key', key });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Returns a copy of an array or plain object with each child mapped, or the
+ * value itself otherwise (primitives, dates, buffers, class instances).
+ */
+function mapChildren(value: unknown, map: (child: unknown, key: string) => unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((child, index) => map(child, String(index)));
+  }
+  if (
+    value &&
+    typeof value === 'object' &&
+    [Object.prototype, null].includes(Object.getPrototypeOf(value))
+  ) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, child]) => [key, map(child, key)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Replaces the values matched by `segments` (from `index` on) with the mask.
+ */
+function maskPath(value: unknown, segments: PathSegment[], index: number, mask: string): unknown {
+  const segment = segments[index];
+  if (!segment) {
+    return mask;
+  }
+
+  if (segment.kind === 'deep') {
+    return mapChildren(value, (child, key) => {
+      const matched =
+        segment.key === undefined || segment.key === key
+          ? maskPath(child, segments, index + 1, mask)
+          : child;
+      // Keep searching below, for nested occurrences of the key
+      return maskPath(matched, segments, index, mask);
+    });
+  }
+
+  return mapChildren(value, (child, key) =>
+    segment.kind === 'any' || segment.key === key
+      ? maskPath(child, segments, index + 1, mask)
+      : child
+  );
+}
+
+/**
+ * Replaces pattern matches in every string of a value.
+ */
+function scrubValue(value: unknown, scrub: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return scrub(value);
+  }
+  return mapChildren(value, (child) => scrubValue(child, scrub));
+}
+
+/**
+ * Applies compiled redaction rules.
+ */
+export interface Redactor {
+  /** Applies every rule to a stream chunk or JSON body */
+  redact(value: unknown, context: RedactionContext): unknown;
+  /** Scrubs the PII and custom patterns from a string, e.g. an error message */
+  scrub(text: string): string;
+}
+
+/**
+ * Compiles redaction options into a redactor. Paths are parsed once, and
+ * patterns are made global so every match is replaced.
+ */
+export function createRedactor(options: RedactionOptions): Redactor {
+  const mask = options.mask ?? DEFAULT_MASK;
+  const paths = (options.paths ?? []).map(parsePath);
+
+  const pii =
+    options.pii === true ? (Object.keys(PII_PATTERNS) as PiiPattern[]) : options.pii || [];
+  const patterns = [...pii.map((name) => PII_PATTERNS[name]), ...(options.patterns ?? [])].map(
+    (pattern) =>
+      pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+  );
+
+  const scrub = (text: string) =>
+    patterns.reduce((result, pattern) => result.replace(pattern, mask), text);
+
+  return {
+    redact(value, context) {
+      let result = value;
+      for (const segments of paths) {
+        result = maskPath(result, segments, 0, mask);
+      }
+      if (patterns.length > 0) {
+        result = scrubValue(result, scrub);
+      }
+      return options.transform ? options.transform(result, context) : result;
+    },
+    scrub,
+  };
+}
@@ -0,0 +1,169 @@
+import type { MemoryReplayStoreOptions, ReplayEvent, ReplayRun, ReplayStore } from './types';
+
+/**
+ * Parses a `Last-Event-ID` header of the form `<runId>:<eventId>`.
+ * Returns undefined for missing or malformed values.
+ */
+export function parseLastEventId(
+  value: string | null
+): { runId: string; eventId: number } | undefined {
+  const separator = value?.lastIndexOf(':') ?? -1;
+  if (!value || separator <= 0) {
+    return undefined;
+  }
+
+  const eventId = Number(value.slice(separator + 1));
+  if (!Number.isSafeInteger(eventId) || eventId < 0) {
+    return undefined;
+  }
+
+  return { runId: value.slice(0, separator), eventId };
+}
+
+/**
+ * Formats an SSE event. The `id:` field is `<runId>:<eventId>`, so a client
+ * reconnecting with `Last-Event-ID` identifies both the run and its position.
+ */
+export function formatSseEvent(runId: string, event: ReplayEvent): string {
+  const name = event.event ? `event: ${event.event}\n` : '';
+  return `id: ${runId}:${event.id}\n${name}data: ${event.data}\n\n`;
+}
+
+/**
+ * Returns the SSE event name for a chunk: its `type` with line breaks
+ * removed, or undefined for chunks without a string type.
+ */
+export function sseEventName(chunk: unknown): string | undefined {
+  const type = (chunk as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string' || type === '') {
+    return undefined;
+  }
+  return type.replace(/[\r\n]/g, '');
+}
+
+interface MemoryRun {
+  path: string;
+  owner?: string;
+  events: ReplayEvent[];
+  completed: boolean;
+  updatedAt: number;
+  listeners: Set<() => void>;
+}
+
+/**
+ * Creates an in-memory replay store for SSE resumption.
+ *
+ * Each run keeps its most recent `maxEvents` events. Runs expire `ttlMs`
+ * after their last event, and the oldest runs are evicted beyond `maxRuns`,
+ * so memory stays bounded. Suitable for single-instance deployments; use a
+ * shared store when clients may reconnect to another instance.
+ *
+ * @example
+ * ```typescript
+ * new ElysiaServer({
+ *   app,
+ *   mastra,
+ *   streamOptions: { replay: { store: createMemoryReplayStore({ maxEvents: 500 }) } },
+ * });
+ * ```
+ */
+export function createMemoryReplayStore(options: MemoryReplayStoreOptions = {}): ReplayStore {
+  const { maxEvents = 1000, maxRuns = 1000, ttlMs = 5 * 60 * 1000 } = options;
+  const runs = new Map<string, MemoryRun>();
+
+  const notify = (run: MemoryRun) => {
+    for (const listener of [...run.listeners]) {
+      listener();
+    }
+  };
+
+  const evict = (runId: string, run: MemoryRun) => {
+    runs.delete(runId);
+    notify(run);
+  };
+
+  const purgeExpired = () => {
+    const now = Date.now();
+    for (const [runId, run] of runs) {
+      if (now - run.updatedAt > ttlMs) {
+        evict(runId, run);
+      }
+    }
+  };
+
+  const touch = (runId: string): MemoryRun | undefined => {
+    const run = runs.get(runId);
+    if (run) {
+      run.updatedAt = Date.now();
+    }
+    return run;
+  };
+
+  return {
+    create(runId, path, owner) {
+      purgeExpired();
+      runs.set(runId, {
+        path,
+        owner,
+        events: [],
+        completed: false,
+        updatedAt: Date.now(),
+        listeners: new Set(),
+      });
+
+      // Map iteration follows insertion order, so the first run is the oldest
+      while (runs.size > maxRuns) {
+        const [oldestId, oldest] = runs.entries().next().value as [string, MemoryRun];
+        evict(oldestId, oldest);
+      }
+    },
+
+    append(runId, event) {
+      const run = touch(runId);
+      if (!run) {
+        return;
+      }
+
+      run.events.push(event);
+      if (run.events.length > maxEvents) {
+        run.events.splice(0, run.events.length - maxEvents);
+      }
+      notify(run);
+    },
+
+    complete(runId) {
+      const run = touch(runId);
+      if (run) {
+        run.completed = true;
+        notify(run);
+      }
+    },
+
+    read(runId, afterId): ReplayRun | undefined {
+      purgeExpired();
+      const run = runs.get(runId);
+      if (!run) {
+        return undefined;
+      }
+
+      return {
+        path: run.path,
+        owner: run.owner,
+        events: run.events.filter((event) => event.id > afterId),
+        completed: run.completed,
+      };
+    },
+
+    subscribe(runId, listener) {
+      const run = runs.get(runId);
+      if (!run) {
+        // Unknown or evicted run: let the caller re-read and find it gone
+        queueMicrotask(listener);
+        return () => {};
+      }
+
+      run.listeners.add(listener);
+      return () => run.listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { RequestIdOptions } from './types';
+
+/**
+ * Default header used to accept and echo request ids.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Key under which the request id is stored in `requestContext`.
+ */
+export const REQUEST_ID_CONTEXT_KEY = 'requestId';
+
+/**
+ * Incoming ids must be short and free of characters that could be used to
+ * forge log lines or headers.
+ */
+const VALID_REQUEST_ID = /^[\w\-.:]{1,128}$/;
+
+/**
+ * Resolves the id for a request: the incoming header value when trusted and
+ * well-formed, otherwise a freshly generated id.
+ */
+export function resolveRequestId(request: Request, options: RequestIdOptions = {}): string {
+  const { header = REQUEST_ID_HEADER, generator = () => crypto.randomUUID() } = options;
+
+  if (options.trustIncoming ?? true) {
+    const incoming = request.headers.get(header);
+    if (incoming && VALID_REQUEST_ID.test(incoming)) {
+      return incoming;
+    }
+  }
+
+  return generator();
+}
@@ -0,0 +1,128 @@
+/**
+ * Matching for per-route configuration maps such as `customRouteAuthConfig`
+ * and `bodyLimitOptions.routes` (see `matchRouteConfig` for the key format).
+ */
+
+interface PatternMatch {
+  /** Whether the pattern ends with a `*` wildcard segment */
+  wildcard: boolean;
+  /** Number of literal (non-param, non-wildcard) segments in the pattern */
+  literals: number;
+  /** Number of path segments the pattern covers */
+  length: number;
+}
+
+/**
+ * Matches a single path pattern against the segments of a request path.
+ * Returns undefined when the pattern does not match.
+ */
+function matchPattern(
+  pattern: string,
+  pathParts: string[],
+  params: boolean
+): PatternMatch | undefined {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const wildcard = patternParts[patternParts.length - 1] === '*';
+  const fixedParts = wildcard ? patternParts.slice(0, -1) : patternParts;
+
+  // Wildcards cover their prefix and anything below it; a bare `/*` never matches
+  if (wildcard && (fixedParts.length === 0 || fixedParts.length > pathParts.length)) {
+    return undefined;
+  }
+  if (!wildcard && fixedParts.length !== pathParts.length) {
+    return undefined;
+  }
+
+  let literals = 0;
+  for (let i = 0; i < fixedParts.length; i++) {
+    const part = fixedParts[i] as string;
+    if (params && part.startsWith(':')) {
+      continue;
+    }
+    if (part !== pathParts[i]) {
+      return undefined;
+    }
+    literals++;
+  }
+
+  return { wildcard, literals, length: fixedParts.length };
+}
+
+/**
+ * Returns true when match `a` is more specific than match `b`.
+ *
+ * Non-wildcard patterns win over wildcards. Among non-wildcard patterns the one
+ * with more literal segments wins; among wildcards the longer prefix wins.
+ */
+function isMoreSpecific(a: PatternMatch, b: PatternMatch): boolean {
+  if (a.wildcard !== b.wildcard) {
+    return !a.wildcard;
+  }
+  if (a.length !== b.length) {
+    return a.length > b.length;
+  }
+  return a.literals > b.literals;
+}
+
+/**
+ * Looks up the most specific entry in a `METHOD:PATH` keyed map for a request.
+ *
+ * Keys follow the format `METHOD:PATH`:
+ * - `GET:/health` matches exactly
+ * - `POST:/agents/:agentId/generate` matches any value in `:param` segments
+ * - `POST:/webhooks/*` matches the prefix and everything below it
+ * - `ALL:/admin/*` matches any method
+ *
+ * Every per-route map matches `:param` segments except
+ * `customRouteAuthConfig`, which passes `params: false`: a key such as
+ * `GET:/agents/:agentId` must not make every agent route public, so auth
+ * overrides only match exact paths and `*` prefixes.
+ *
+ * Entries for the request's method take precedence over `ALL:` entries. Within
+ * each method, an exact key is checked first, then the most specific pattern.
+ *
+ * @param config - Map keyed by `METHOD:PATH` patterns
+ * @param method - The request method
+ * @param path - The request pathname (including any prefix)
+ * @param options - `params: false` matches `:param` segments literally
+ * @returns The matched value, or undefined when no entry matches
+ */
+export function matchRouteConfig<T>(
+  config: Map<string, T>,
+  method: string,
+  path: string,
+  options: { params?: boolean } = {}
+): T | undefined {
+  if (config.size === 0) {
+    return undefined;
+  }
+
+  const pathParts = path.split('/').filter(Boolean);
+
+  for (const candidateMethod of [method.toUpperCase(), 'ALL']) {
+    const exactKey = `${candidateMethod}:${path}`;
+    if (config.has(exactKey)) {
+      return config.get(exactKey);
+    }
+
+    const keyPrefix = `${candidateMethod}:`;
+    let best: { match: PatternMatch; value: T } | undefined;
+
+    for (const [key, value] of config) {
+      if (!key.startsWith(keyPrefix)) {
+        continue;
+      }
+
+      const match = matchPattern(key.slice(keyPrefix.length), pathParts, options.params ?? true);
+      if (match && (!best || isMoreSpecific(match, best.match))) {
+        best = { match, value };
+      }
+    }
+
+    if (best) {
+      return best.value;
+    }
+  }
+
+  return undefined;
+}
@@ -1,41 +1,393 @@
-import { type Context, type AnyElysia } from 'elysia';
+import { status, type Context, type AnyElysia } from 'elysia';
 import { MastraServer, type ServerRoute, redactStreamChunk } from '@mastra/server/server-adapter';
+import type { RequestContext } from '@mastra/core/request-context';
 import type {
   ElysiaServerOptions,
+  ElysiaAuthConfig,
+  ElysiaWithMastra,
+  AggregatedStreamResult,
+  CompressionOptions,
+  DetachOptions,
   ExtractedParams,
   MastraDeriveContext,
   MastraAuthContext,
-  MastraLogger,
   McpHttpResult,
   McpSseResult,
+  ProblemDetails,
+  RedactionContext,
+  RequestContextSourceOptions,
+  TrustedContextSource,
   StreamResult,
   BodyLimitOptions,
+  ChunkFilter,
+  ErrorMapper,
+  ErrorMapperResult,
+  LogFields,
+  RequestIdOptions,
+  StructuredLogger,
+  AccessLogEntry,
+  AccessLogOptions,
+  MetricsOptions,
+  ReplayEvent,
+  ReplayRun,
+  ReplayStore,
+  StreamErrorEvent,
+  StreamFraming,
+  StreamHookContext,
+  StreamLimitReason,
+  StreamSummary,
+  StreamOptions,
+  WebSocketClientMessage,
+  WebSocketOptions,
+  WebSocketServerMessage,
 } from './types';
+import { matchRouteConfig } from './route-matching';
+import { preferredEncoding, preferredMediaType } from './negotiation';
+import { aggregateChunk, aggregateStream, emptyAggregate } from './aggregate';
+import { createRedactor, type Redactor } from './redaction';
+import { DEFAULT_CHUNK_FILTER_PARAM, filterChunk, parseChunkFilter } from './chunk-filter';
+import {
+  appendVary,
+  compressBytes,
+  compressStream,
+  DEFAULT_ENCODINGS,
+  DEFAULT_THRESHOLD,
+  isCompressible,
+  isStreamType,
+  readToThreshold,
+} from './compression';
+import {
+  defaultErrorMapper,
+  getRequestId,
+  PROBLEM_CONTENT_TYPE,
+  PROBLEM_TYPES,
+  streamErrorEvent,
+} from './errors';
+import { defaultLogger, toStructuredLogger } from './logger';
+import { measureResponseBody, serializedByteLength, type BodyOutcome } from './access-log';
+import { createMemoryReplayStore, formatSseEvent, parseLastEventId, sseEventName } from './replay';
+import { AdapterMetrics, OPENMETRICS_CONTENT_TYPE, PROMETHEUS_CONTENT_TYPE } from './metrics';
+import {
+  endRequestSpan,
+  recordSpanError,
+  startRequestSpan,
+  toTraceContext,
+  TRACE_CONTEXT_KEY,
+  TRACER_NAME,
+  withSpan,
+  type RequestTrace,
+} from './tracing';
+import { trace, type Tracer } from '@opentelemetry/api';
+import {
+  deriveMastraContext,
+  validateRequestContext,
+  type ContextDerivation,
+  type RequestContextValidation,
+} from './context';
+import {
+  decodeJwtClaims,
+  trustedAuthValues,
+  trustedHeaderValues,
+  withoutTrustedKeys,
+} from './trusted-context';
+import {
+  DEFAULT_MAX_SUBSCRIPTIONS,
+  DEFAULT_TOKEN_PARAM,
+  DEFAULT_WEBSOCKET_PATH,
+  isWebSocketUpgrade,
+  matchPathParams,
+  parseClientMessage,
+} from './websocket';
 
-const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.BUN_ENV === 'test';
+/**
+ * Returns log fields for a request from the context derived by
+ * `registerContextMiddleware` and `registerAuthMiddleware`.
+ * Empty when neither middleware has run.
+ */
+function requestLogFields(context: unknown): LogFields {
+  const { requestId, user } = context as { requestId?: unknown; user?: unknown };
+  const fields: LogFields = {};
 
-const defaultLogger: MastraLogger = {
-  error: (message: string, error?: unknown) => {
-    if (!isTestEnvironment) {
-      console.error(`[ElysiaServer] ${message}`, error ?? '');
-    }
-  },
-  warn: (message: string) => {
-    if (!isTestEnvironment) {
-      console.warn(`[ElysiaServer] ${message}`);
-    }
-  },
-  info: (message: string) => {
-    if (!isTestEnvironment) {
-      console.info(`[ElysiaServer] ${message}`);
+  if (typeof requestId === 'string') {
+    fields.requestId = requestId;
+  }
+
+  const userId = isPlainObject(user) ? user.id : undefined;
+  if (typeof userId === 'string' || typeof userId === 'number') {
+    fields.userId = String(userId);
+  }
+
+  return fields;
+}
+
+/**
+ * Feeds a run's chunks to the stream hooks, see `createStreamTee`.
+ */
+interface StreamTee {
+  /** Passes a redacted chunk to `onStreamChunk` and adds it to the summary */
+  chunk(chunk: unknown): void;
+  /** Passes the summary to `onStreamComplete`; later calls are ignored */
+  complete(outcome: BodyOutcome, error?: unknown): void;
+}
+
+/**
+ * The parts of Elysia's WebSocket wrapper the WebSocket endpoint uses.
+ * `raw` is the underlying socket, which stays the same across events.
+ */
+interface SocketConnection {
+  readonly raw: object;
+  readonly data: unknown;
+  readonly readyState: number;
+  send(data: string): unknown;
+}
+
+/**
+ * Sends a protocol message, unless the socket is no longer open.
+ */
+function sendSocketMessage(ws: SocketConnection, message: WebSocketServerMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Builds the error message rejecting a WebSocket client message or
+ * subscription.
+ */
+function socketError(
+  id: string | undefined,
+  code: string,
+  message: string,
+  requestId: string | undefined
+): WebSocketServerMessage {
+  return {
+    type: 'error',
+    ...(id === undefined ? {} : { id }),
+    error: { code, message, ...(requestId ? { requestId } : {}) },
+  };
+}
+
+/**
+ * Returns true for non-null, non-array objects.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the milliseconds elapsed since `startedAt`, rounded to 0.01ms.
+ */
+function elapsedMs(startedAt: number): number {
+  return Math.round((performance.now() - startedAt) * 100) / 100;
+}
+
+/**
+ * Returns the status Elysia will send for a handler result.
+ * An explicitly set status takes precedence over the status of a returned Response.
+ */
+function resolveResponseStatus(context: Context, response: unknown): number {
+  const status = context.set.status;
+  const setStatus = typeof status === 'number' ? status : 200;
+
+  if (response instanceof Response && setStatus === 200) {
+    return response.status;
+  }
+  return setStatus;
+}
+
+/**
+ * Completion marker sent at the end of SSE streams.
+ */
+const SSE_DONE_EVENT = 'data: [DONE]\n\n';
+
+/**
+ * Request header choosing whether a run is detached, when
+ * `DetachOptions.header` is not set.
+ */
+const DETACH_HEADER = 'X-Mastra-Detach';
+
+/**
+ * Response header carrying the id of a detached run.
+ */
+const RUN_ID_HEADER = 'X-Mastra-Run-Id';
+
+/**
+ * Reattach route path, when `DetachOptions.path` is not set.
+ */
+const DEFAULT_RUN_STREAM_PATH = '/runs/:runId/stream';
+
+/**
+ * Detached runs in progress at once, when `DetachOptions.maxRuns` is not set.
+ */
+const DEFAULT_MAX_DETACHED_RUNS = 100;
+
+/**
+ * Keep-alive sent on idle SSE streams. Other streams send an empty record.
+ */
+const SSE_HEARTBEAT = ': ping\n\n';
+
+/**
+ * Content type and record delimiters for each non-SSE stream framing.
+ */
+const STREAM_FRAMINGS: Record<
+  StreamFraming,
+  { contentType: string; prefix: string; suffix: string }
+> = {
+  ndjson: { contentType: 'application/x-ndjson', prefix: '', suffix: '\n' },
+  'json-seq': { contentType: 'application/json-seq', prefix: '\x1E', suffix: '\n' },
+  legacy: { contentType: 'text/plain', prefix: '', suffix: '\x1E' },
+};
+
+/**
+ * Formats the terminal event of a stream that ends early: an SSE `error`
+ * event, or an error record in the given framing for other streams.
+ */
+function formatStreamError(
+  framing: (typeof STREAM_FRAMINGS)[StreamFraming] | undefined,
+  event: StreamErrorEvent
+): string {
+  if (!framing) {
+    return `event: error\ndata: ${JSON.stringify(event)}\n\n`;
+  }
+  return framing.prefix + JSON.stringify({ type: 'error', error: event }) + framing.suffix;
+}
+
+/**
+ * Media types clients can request a framing with through `Accept`.
+ */
+const FRAMING_MEDIA_TYPES: Record<string, StreamFraming> = {
+  'application/x-ndjson': 'ndjson',
+  'application/json-seq': 'json-seq',
+};
+
+/**
+ * Sends `payload` on a stream after `intervalMs` without writes, so proxies
+ * do not drop idle connections. Call `reset` after every write and `stop`
+ * once the stream closes. Does nothing when `intervalMs` is not positive.
+ */
+function createHeartbeat(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  intervalMs: number | undefined,
+  payload: string
+): { reset: () => void; stop: () => void } {
+  if (!intervalMs || intervalMs <= 0) {
+    return { reset: () => {}, stop: () => {} };
+  }
+
+  const bytes = new TextEncoder().encode(payload);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => clearTimeout(timer);
+  const reset = () => {
+    stop();
+    timer = setTimeout(() => {
+      try {
+        controller.enqueue(bytes);
+        reset();
+      } catch {
+        // The stream closed between the last write and this tick
+      }
+    }, intervalMs);
+  };
+
+  return { reset, stop };
+}
+
+/**
+ * Returns the response headers for a stream.
+ *
+ * `Transfer-Encoding` is left to the HTTP server: Elysia re-streams chunked
+ * responses itself and would wrap every SSE event in another `data:` field.
+ */
+function streamHeaders(contentType: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  };
+
+  if (contentType === 'text/event-stream') {
+    headers['X-Accel-Buffering'] = 'no';
+  }
+
+  return headers;
+}
+
+/**
+ * Returns the declared content-length of a request, or 0 when absent or invalid.
+ */
+function parseContentLength(request: Request): number {
+  const contentLength = request.headers.get('content-length');
+  if (!contentLength) {
+    return 0;
+  }
+
+  const size = parseInt(contentLength, 10);
+  return Number.isNaN(size) ? 0 : size;
+}
+
+/**
+ * Returns the lowercased media type of a request without parameters
+ * (e.g. `multipart/form-data` for `multipart/form-data; boundary=...`).
+ */
+function parseMediaType(request: Request): string {
+  const contentType = request.headers.get('content-type') ?? '';
+  return contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+}
+
+/**
+ * Looks up a limit by media type, trying the exact type before `type/*`.
+ */
+function matchContentTypeLimit(
+  limits: Record<string, number> | undefined,
+  mediaType: string
+): number | undefined {
+  if (!limits || !mediaType) {
+    return undefined;
+  }
+
+  return limits[mediaType] ?? limits[`${mediaType.split('/')[0]}/*`];
+}
+
+/**
+ * Reads a request body stream into memory, giving up as soon as more than
+ * `maxSize` bytes have been received.
+ *
+ * @returns The buffered body, or no bytes if the limit was crossed. `size` is
+ * the number of bytes read before stopping.
+ */
+async function readBodyWithLimit(
+  body: ReadableStream<Uint8Array>,
+  maxSize: number
+): Promise<{ bytes?: Uint8Array; size: number }> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
     }
-  },
-  debug: (message: string) => {
-    if (!isTestEnvironment) {
-      console.debug(`[ElysiaServer] ${message}`);
+
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      return { size };
     }
-  },
-};
+
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { bytes, size };
+}
 
 /**
  * Elysia server adapter for Mastra.
@@ -43,6 +395,10 @@ const defaultLogger: MastraLogger = {
  * Extends MastraServer to provide Elysia-specific implementations for
  * route registration, middleware, and response handling.
  *
+ * `TUser` is the authenticated user type, inferred from the `auth` option's
+ * `authenticateToken` or given explicitly when auth is configured in Mastra.
+ * `TContext`, inferred from `requestContextSchema`, types `ctx.requestContext`.
+ *
  * @example
  * ```typescript
  * import { Elysia } from 'elysia';
@@ -62,25 +418,114 @@ const defaultLogger: MastraLogger = {
  * await server.init();
  *
  * // Add custom routes with proper typing
- * app.get('/custom', (ctx: ElysiaContext) => {
- *   const { mastra, tools } = ctx;
- *   return { status: 'ok' };
+ * app.get('/custom', (ctx: ElysiaContext<User>) => {
+ *   const { mastra, tools, user } = ctx;
+ *   return { status: 'ok', userId: user?.id };
  * });
  *
  * app.listen(3000);
  * ```
  */
-export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
+export class ElysiaServer<TUser = unknown, TContext = unknown> extends MastraServer<
+  AnyElysia,
+  Context,
+  Context
+> {
   /** Logger instance for debugging and monitoring */
-  private readonly log: MastraLogger;
+  private readonly log: StructuredLogger;
+
+  /** Auth functions overriding Mastra's auth config */
+  private readonly auth?: ElysiaAuthConfig<TUser>;
 
   /** Body limit configuration */
   private readonly bodyLimit?: BodyLimitOptions;
 
+  /** Requests whose streamed body crossed the limit, with the bytes read so far */
+  private readonly oversizedRequests = new WeakMap<Request, number>();
+
   /** Per-route auth configuration */
   private readonly routeAuthConfig?: Map<string, boolean>;
 
-  constructor(options: ElysiaServerOptions) {
+  /** Custom error mapper, falling back to problem details */
+  private readonly errorMapper?: ErrorMapper;
+
+  /** Request id header and generator configuration */
+  private readonly requestIdOptions: RequestIdOptions;
+
+  /** Where client-supplied request context is read from */
+  private readonly requestContextSources?: RequestContextSourceOptions;
+
+  /** Request context schema and unknown key policy, undefined without a schema */
+  private readonly requestContextValidation?: RequestContextValidation;
+
+  /** Sources of the trusted request context keys, and the keys themselves */
+  private readonly trustedContext?: Record<string, TrustedContextSource<TUser>>;
+  private readonly trustedKeys: ReadonlySet<string>;
+
+  /** Access log configuration, undefined when access logging is off */
+  private readonly accessLog?: AccessLogOptions;
+
+  /** Metrics endpoint configuration, undefined when metrics are off */
+  private readonly metricsOptions?: MetricsOptions;
+
+  /** Collected metrics, undefined when metrics are off */
+  private readonly metrics?: AdapterMetrics;
+
+  /** OpenTelemetry tracer, undefined when telemetry is off */
+  private readonly tracer?: Tracer;
+
+  /** Whether request spans continue incoming traceparent headers */
+  private readonly trustIncomingTraces: boolean;
+
+  /** Registered Mastra routes (`METHOD /path`), for request spans and context validation */
+  private readonly mastraRoutes = new Set<string>();
+
+  /** Paths of the adapter's own endpoints (metrics, run reattach, WebSocket) */
+  private readonly adapterRoutes = new Set<string>();
+
+  /** Controllers behind each request's derived `abortSignal` */
+  private readonly abortControllers = new WeakMap<Request, AbortController>();
+
+  /** Open request spans, until the response has been sent */
+  private readonly requestTraces = new WeakMap<Request, RequestTrace>();
+
+  /** Response compression configuration, undefined when compression is off */
+  private readonly compression?: CompressionOptions;
+
+  /** Hooks teeing the chunks and summary of streamed runs */
+  private readonly onStreamChunk?: ElysiaServerOptions<TUser, TContext>['onStreamChunk'];
+  private readonly onStreamComplete?: ElysiaServerOptions<TUser, TContext>['onStreamComplete'];
+
+  /** Compiled redaction rules, undefined when no `redaction` is configured */
+  private readonly redactor?: Redactor;
+
+  /** Stream configuration, including the options Mastra's base class does not know */
+  private readonly streamConfig: StreamOptions;
+
+  /** SSE replay store, undefined when replay is off */
+  private readonly replayStore?: ReplayStore;
+
+  /** Detached run configuration and store, undefined when detaching is off */
+  private readonly detach?: DetachOptions;
+  private readonly runStore?: ReplayStore;
+
+  /** Requests whose runs keep going after the client disconnects */
+  private readonly detachedRequests = new WeakSet<Request>();
+
+  /** Detached runs in progress, and how each request's run releases its slot */
+  private activeDetachedRuns = 0;
+  private readonly detachedRunReleases = new WeakMap<Request, () => void>();
+
+  /** WebSocket endpoint configuration, undefined when the endpoint is off */
+  private readonly websocket?: WebSocketOptions;
+
+  /** Registered Mastra `stream` routes, with their full paths, for WebSocket subscriptions */
+  private readonly streamRoutes: { route: ServerRoute; path: string }[] = [];
+
+  /** Running subscriptions of each open socket, by subscription id */
+  private readonly socketSubscriptions = new WeakMap<object, Map<string, AbortController>>();
+
+  constructor(options: ElysiaServerOptions<TUser, TContext>) {
     super({
       app: options.app,
       mastra: options.mastra,
@@ -93,9 +538,45 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
       taskStore: options.taskStore,
     });
 
-    this.log = options.logger ?? defaultLogger;
+    this.log = toStructuredLogger(options.logger ?? defaultLogger);
+    this.auth = options.auth;
     this.bodyLimit = options.bodyLimitOptions;
     this.routeAuthConfig = options.customRouteAuthConfig;
+    this.errorMapper = options.errorMapper;
+    this.requestIdOptions = options.requestIdOptions ?? {};
+    this.requestContextSources = options.requestContextSources;
+    this.requestContextValidation = options.requestContextSchema && {
+      schema: options.requestContextSchema,
+      unknownKeys: options.requestContextUnknownKeys,
+    };
+    this.trustedContext = options.trustedRequestContext;
+    this.trustedKeys = new Set(Object.keys(options.trustedRequestContext ?? {}));
+    this.accessLog = options.accessLog === true ? {} : options.accessLog || undefined;
+    this.metricsOptions = options.metrics === true ? {} : options.metrics || undefined;
+    this.metrics = this.metricsOptions ? new AdapterMetrics(this.metricsOptions) : undefined;
+
+    const telemetry = options.telemetry === true ? {} : options.telemetry || undefined;
+    this.tracer = telemetry ? (telemetry.tracer ?? trace.getTracer(TRACER_NAME)) : undefined;
+    this.trustIncomingTraces = telemetry?.trustIncoming ?? true;
+
+    this.compression = options.compression === true ? {} : options.compression || undefined;
+    this.redactor = options.redaction ? createRedactor(options.redaction) : undefined;
+    this.onStreamChunk = options.onStreamChunk;
+    this.onStreamComplete = options.onStreamComplete;
+    this.streamConfig = options.streamOptions ?? {};
+
+    const replay = this.streamConfig.replay;
+    if (replay) {
+      this.replayStore = (replay === true ? undefined : replay.store) ?? createMemoryReplayStore();
+    }
+
+    const detach = this.streamConfig.detach;
+    this.detach = detach === true ? {} : detach || undefined;
+    if (this.detach) {
+      this.runStore = this.detach.store ?? this.replayStore ?? createMemoryReplayStore();
+    }
+
+    this.websocket = options.websocket === true ? {} : options.websocket || undefined;
   }
 
   /**
@@ -107,6 +588,9 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
    * 2. Context middleware (mastra, tools, requestContext, abortSignal)
    * 3. Auth middleware (if auth is configured in Mastra)
    * 4. All Mastra routes
+   * 5. Metrics endpoint (if metrics are enabled)
+   * 6. Run reattach endpoint (if detached runs are enabled)
+   * 7. WebSocket endpoint (if `websocket` is enabled)
    *
    * @example
    * ```typescript
@@ -125,6 +609,9 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
 
     // Finally register all routes
     await this.registerRoutes();
+    this.registerMetricsRoute();
+    this.registerRunStreamRoute();
+    this.registerWebSocketRoute();
 
     this.log.info?.('Server initialized successfully');
   }
@@ -132,31 +619,107 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
   /**
    * Registers body size limit middleware.
    * Rejects requests that exceed the configured maxSize with a 413 status.
+   *
+   * The declared `content-length` is checked first so obviously oversized
+   * requests are rejected without reading the body. Otherwise the body is read
+   * through a byte counter during parsing, which also covers chunked uploads
+   * and clients that omit or understate the header. Reading stops as soon as
+   * the limit is crossed.
+   *
+   * The limit for each request is resolved from `routes` and `contentTypes`,
+   * falling back to the global maxSize (see `resolveBodyLimit`).
    */
   registerBodyLimitMiddleware(): void {
     if (!this.bodyLimit) {
       return;
     }
 
-    const { maxSize, onError } = this.bodyLimit;
+    const { maxSize: defaultMaxSize, onError } = this.bodyLimit;
 
-    this.app.onBeforeHandle(async ({ request, set }) => {
-      const contentLength = request.headers.get('content-length');
+    this.app.onParse(async (context) => {
+      const { request } = context;
+      const maxSize = this.resolveBodyLimit(request);
 
-      if (contentLength) {
-        const size = parseInt(contentLength, 10);
+      if (!request.body) {
+        return;
+      }
 
-        if (!Number.isNaN(size) && size > maxSize) {
-          this.log.warn?.(`Request body size ${size} exceeds limit ${maxSize}`);
-          set.status = 413;
-          return onError(
-            new Error(`Request body size ${size} exceeds maximum allowed size of ${maxSize} bytes`)
-          );
-        }
+      // Declared size is already too large: skip reading, onBeforeHandle rejects it
+      if (parseContentLength(request) > maxSize) {
+        return null;
+      }
+
+      const { bytes, size } = await readBodyWithLimit(request.body, maxSize);
+
+      if (!bytes) {
+        this.oversizedRequests.set(request, size);
+        // Mark the body as parsed so Elysia does not read the cancelled stream
+        return null;
+      }
+
+      // Hand Elysia's own parsers a buffered copy of the request
+      (context as { request: Request }).request = new Request(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: bytes,
+        signal: request.signal,
+      });
+    });
+
+    this.app.onBeforeHandle(async (context) => {
+      const { request, set } = context;
+      const maxSize = this.resolveBodyLimit(request);
+      const size = this.oversizedRequests.get(request) ?? parseContentLength(request);
+
+      if (size > maxSize) {
+        this.log.warn('Request body exceeds size limit', {
+          ...requestLogFields(context),
+          method: request.method,
+          path: new URL(request.url).pathname,
+          size,
+          maxSize,
+        });
+        this.metrics?.countBodyLimitRejection(request.method, context.route);
+        this.endRequestTrace(request, 413);
+        set.status = 413;
+        return onError(
+          new Error(`Request body size ${size} exceeds maximum allowed size of ${maxSize} bytes`)
+        );
       }
     });
 
-    this.log.debug?.(`Body limit middleware registered with maxSize: ${maxSize}`);
+    this.log.debug?.('Body limit middleware registered', { maxSize: defaultMaxSize });
+  }
+
+  /**
+   * Resolves the body size limit that applies to a request.
+   *
+   * Lookup order, first match wins:
+   * 1. Matching `routes` entry: its content-type limit, then its maxSize
+   * 2. Global `contentTypes` limit for the request's content type
+   * 3. Global maxSize
+   */
+  private resolveBodyLimit(request: Request): number {
+    const { maxSize, routes, contentTypes } = this.bodyLimit as BodyLimitOptions;
+    const contentType = parseMediaType(request);
+
+    if (routes) {
+      const url = new URL(request.url);
+      const rule = matchRouteConfig(routes, request.method, url.pathname);
+
+      if (typeof rule === 'number') {
+        return rule;
+      }
+
+      if (rule) {
+        const limit = matchContentTypeLimit(rule.contentTypes, contentType) ?? rule.maxSize;
+        if (limit !== undefined) {
+          return limit;
+        }
+      }
+    }
+
+    return matchContentTypeLimit(contentTypes, contentType) ?? maxSize;
   }
 
   /**
@@ -169,52 +732,68 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
    * - tools: Available tools
    * - abortSignal: Signal that fires when client disconnects
    * - taskStore: Task store for A2A communication (if configured)
+   * - requestId: Incoming or generated request id, also stored in requestContext
+   *   and echoed in the response headers
+   *
+   * Client request context is read from the `requestContext` query parameter,
+   * and the header and signed cookie `requestContextSources` enables. With a
+   * `requestContextSchema`, or in strict mode, an invalid one gets a 400
+   * validation problem. Mastra routes only check the keys present
+   * here, and validate the context merged with the body's before the handler.
+   * The adapter's own endpoints only check the keys present; other routes
+   * check the whole schema.
    */
   registerContextMiddleware(): void {
-    this.app.derive(({ request }): MastraDeriveContext => {
-      // Create AbortController and connect to request lifecycle
-      const abortController = new AbortController();
-
-      // This ensures the signal fires when the client disconnects
-      if ('signal' in request && request.signal instanceof AbortSignal) {
-        if (request.signal.aborted) {
-          // Request was already aborted
-          abortController.abort(request.signal.reason);
-        } else {
-          request.signal.addEventListener(
-            'abort',
-            () => {
-              abortController.abort(request.signal.reason);
-            },
-            { once: true }
-          );
-        }
+    const derivation: ContextDerivation = {
+      mastra: this.mastra,
+      tools: this.tools,
+      taskStore: this.taskStore,
+      requestIdOptions: this.requestIdOptions,
+      requestContextSources: this.requestContextSources,
+      requestContextValidation: this.requestContextValidation,
+      trustedContext: this.trustedContext && {
+        keys: this.trustedKeys,
+        values: (request) => trustedHeaderValues(request, this.trustedContext ?? {}),
+      },
+      logger: this.log,
+      createRequestContext: (values) =>
+        this.mergeRequestContext({ paramsRequestContext: values, bodyRequestContext: undefined }),
+      // Detached runs keep going without their client
+      abortOnDisconnect: (request) => !this.detachedRequests.has(request),
+    };
+    const partialDerivation: ContextDerivation = {
+      ...derivation,
+      requestContextValidation: this.requestContextValidation && {
+        ...this.requestContextValidation,
+        partial: true,
+      },
+    };
+
+    this.app.derive(async ({ request, set, route }) => {
+      const { context, abortController, problem } = await deriveMastraContext(
+        request,
+        set,
+        this.isMastraRoute(request, route) || this.adapterRoutes.has(route)
+          ? partialDerivation
+          : derivation
+      );
+      this.abortControllers.set(request, abortController);
+
+      if (problem) {
+        set.headers['Content-Type'] = PROBLEM_CONTENT_TYPE;
+        return status(400, problem);
       }
 
-      let paramsRequestContext: Record<string, unknown> | undefined;
-      try {
-        const url = new URL(request.url);
-        const rcParam = url.searchParams.get('requestContext');
-        if (rcParam) {
-          paramsRequestContext = JSON.parse(rcParam);
+      const requestTrace = this.startRequestTrace(request, route);
+      if (requestTrace) {
+        requestTrace.span.setAttribute('mastra.request_id', context.requestId);
+        const traceContext = toTraceContext(requestTrace.span);
+        if (traceContext) {
+          context.requestContext.set(TRACE_CONTEXT_KEY, traceContext);
         }
-      } catch (error) {
-        // Invalid JSON in requestContext param - log and continue without it
-        this.log.warn?.(`Invalid JSON in requestContext query param: ${error}`);
       }
 
-      const requestContext = this.mergeRequestContext({
-        paramsRequestContext,
-        bodyRequestContext: undefined,
-      });
-
-      return {
-        mastra: this.mastra,
-        requestContext,
-        tools: this.tools ?? {},
-        abortSignal: abortController.signal,
-        taskStore: this.taskStore,
-      };
+      return context;
     });
 
     this.log.debug?.('Context middleware registered');
@@ -231,28 +810,38 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
    * 4. If invalid, return 401 Unauthorized
    * 5. Check authorization using configured authorize/authorizeUser function
    * 6. If not authorized, return 403 Forbidden
-   * 7. Attach user to context for downstream handlers via derive
+   * 7. Attach user to context for downstream handlers via derive, and fill
+   *    the trusted request context keys sourced from the user and token
+   *
+   * WebSocket upgrade requests may pass the token in a query parameter
+   * instead (see `WebSocketOptions.tokenParam`).
    */
   registerAuthMiddleware(): void {
-    const authConfig = this.mastra.getServer()?.auth;
+    const authConfig = this.getAuthConfig();
 
     if (!authConfig) {
       this.log.debug?.('No auth config found, skipping auth middleware');
       return;
     }
 
-    this.app.derive(async ({ request, set }): Promise<MastraAuthContext> => {
+    this.app.derive(async (context): Promise<MastraAuthContext<TUser>> => {
+      const { request, set } = context;
+
       const authOverride = this.checkRouteAuthOverride(request);
       if (authOverride === false) {
         return { user: null, authError: null };
       }
 
       const authHeader = request.headers.get('authorization');
-      const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : (authHeader ?? '');
+      const token = authHeader?.startsWith('Bearer ')
+        ? authHeader.slice(7)
+        : (authHeader ?? this.upgradeToken(request) ?? '');
 
       if (authConfig.authenticateToken) {
         try {
-          const user = await authConfig.authenticateToken(token, request as never);
+          const user = await this.traceStep(request, 'mastra.auth.authenticate', () =>
+            authConfig.authenticateToken?.(token, request as never)
+          );
 
           // If authentication fails, return 401 Unauthorized
           if (!user) {
@@ -260,9 +849,14 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
             return { user: null, authError: 'unauthorized' };
           }
 
+          this.setTrustedAuthValues(context, user, token);
           return { user, authError: null };
         } catch (error) {
-          this.log.error?.('Authentication error', error);
+          this.log.error('Authentication error', error, {
+            ...requestLogFields(context),
+            method: request.method,
+            path: new URL(request.url).pathname,
+          });
           set.status = 401;
           return { user: null, authError: 'unauthorized' };
         }
@@ -272,50 +866,28 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
     });
 
     this.app.onBeforeHandle(({ set, ...context }) => {
-      const ctx = context as unknown as MastraAuthContext;
+      const ctx = context as unknown as MastraAuthContext<TUser>;
 
       // If authentication failed in derive, return 401
       if (ctx.authError === 'unauthorized') {
+        this.metrics?.countAuthFailure(context.request.method, context.route, 401);
+        this.endRequestTrace(context.request, 401);
         set.status = 401;
         return { error: 'Unauthorized' };
       }
     });
 
     this.app.onBeforeHandle(async ({ request, set, ...context }) => {
-      const ctx = context as unknown as MastraAuthContext;
+      const ctx = context as unknown as MastraAuthContext<TUser>;
 
       // Skip if already failed authentication
       if (ctx.authError === 'unauthorized') {
         return;
       }
 
-      const user = ctx.user;
-
-      const authorizeFunc = this.getAuthorizeFunction(authConfig);
-      const authorizeUserFunc = this.getAuthorizeUserFunction(authConfig);
-
-      if (!authorizeFunc && !authorizeUserFunc) {
-        return;
-      }
-
-      let allowed = true;
-
-      try {
-        if (authorizeFunc) {
-          const url = new URL(request.url);
-          const path = url.pathname;
-          const method = request.method;
-          allowed = await authorizeFunc(path, method, user, context);
-        } else if (authorizeUserFunc) {
-          const result = authorizeUserFunc(user, request);
-          allowed = result instanceof Promise ? await result : result;
-        }
-      } catch (error) {
-        this.log.error?.('Authorization error', error);
-        allowed = false;
-      }
-
-      if (!allowed) {
+      if (!(await this.isAuthorized(authConfig, request, ctx.user, context))) {
+        this.metrics?.countAuthFailure(request.method, context.route, 403);
+        this.endRequestTrace(request, 403);
         set.status = 403;
         return { error: 'Forbidden' };
       }
@@ -325,57 +897,209 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
   }
 
   /**
-   * Checks if a route has an auth override in customRouteAuthConfig.
-   * Returns true to require auth, false to skip auth, undefined for default behavior.
+   * Registers the metrics endpoint if metrics are enabled.
+   * Serves the OpenMetrics format to clients that accept it (Prometheus
+   * negotiates this by default) and the Prometheus text format otherwise.
+   *
+   * The endpoint is registered like any other route, so auth middleware
+   * applies unless overridden in customRouteAuthConfig.
    */
-  private checkRouteAuthOverride(request: Request): boolean | undefined {
-    if (!this.routeAuthConfig || this.routeAuthConfig.size === 0) {
-      return undefined;
+  registerMetricsRoute(): void {
+    if (!this.metrics) {
+      return;
     }
 
-    const url = new URL(request.url);
-    const path = url.pathname;
-    const method = request.method.toUpperCase();
+    const metrics = this.metrics;
+    const path = `${this.prefix ?? ''}${this.metricsOptions?.path ?? '/metrics'}`;
+
+    this.adapterRoutes.add(path);
+    this.app.get(path, ({ request }) => {
+      const openMetrics = request.headers.get('accept')?.includes('application/openmetrics-text');
+
+      return new Response(metrics.render(openMetrics), {
+        headers: {
+          'Content-Type': openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+        },
+      });
+    });
 
-    // Check in order of specificity:
-    // 1. Exact match: METHOD:PATH
-    const exactKey = `${method}:${path}`;
-    if (this.routeAuthConfig.has(exactKey)) {
-      return this.routeAuthConfig.get(exactKey);
+    this.log.debug?.('Metrics route registered', { route: path });
+  }
+  /**
+   * Registers the route clients reattach to detached runs with, if detached
+   * runs are enabled. It streams the run's events as SSE from the start, or
+   * after the event in `Last-Event-ID`, then follows the run until it ends.
+   * Unknown and expired runs get a 404, as do runs another user started.
+   *
+   * The endpoint is registered like any other route, so auth middleware
+   * applies unless overridden in customRouteAuthConfig.
+   */
+  registerRunStreamRoute(): void {
+    const store = this.runStore;
+    if (!store) {
+      return;
     }
 
-    // 2. Wildcard match: METHOD:PATH/*
-    const pathParts = path.split('/').filter(Boolean);
-    for (let i = pathParts.length; i > 0; i--) {
-      const wildcardPath = '/' + pathParts.slice(0, i).join('/') + '/*';
-      const wildcardKey = `${method}:${wildcardPath}`;
-      if (this.routeAuthConfig.has(wildcardKey)) {
-        return this.routeAuthConfig.get(wildcardKey);
+    const path = `${this.prefix ?? ''}${this.detach?.path ?? DEFAULT_RUN_STREAM_PATH}`;
+
+    this.adapterRoutes.add(path);
+    this.app.get(path, async (context) => {
+      const { runId } = context.params as Record<string, string>;
+      const lastEventId = parseLastEventId(context.request.headers.get('last-event-id'));
+      const afterId = lastEventId && lastEventId.runId === runId ? lastEventId.eventId : 0;
+
+      const run = runId ? await store.read(runId, afterId) : undefined;
+      if (!runId || !run || !this.isRunOwner(run, context as unknown as Context)) {
+        const problem: ProblemDetails = {
+          type: PROBLEM_TYPES.generic,
+          title: 'Not Found',
+          status: 404,
+          detail: 'Unknown or expired run',
+          instance: new URL(context.request.url).pathname,
+          requestId: getRequestId(context as unknown as Context, this.requestIdOptions),
+        };
+        return new Response(JSON.stringify(problem), {
+          status: 404,
+          headers: { 'Content-Type': PROBLEM_CONTENT_TYPE },
+        });
       }
-    }
 
-    // 3. ALL method match
-    const allExactKey = `ALL:${path}`;
-    if (this.routeAuthConfig.has(allExactKey)) {
-      return this.routeAuthConfig.get(allExactKey);
+      this.log.debug?.('Reattaching to run', { runId, lastEventId: afterId });
+      return this.replayRun(store, runId, afterId);
+    });
+
+    this.log.debug?.('Run stream route registered', { route: path });
+  }
+  /**
+   * Registers the WebSocket endpoint if it is enabled. Clients subscribe to
+   * Mastra `stream` routes with JSON messages and receive each run's chunks,
+   * tagged with their subscription id, over the one socket (see
+   * `WebSocketClientMessage` and `WebSocketServerMessage`).
+   *
+   * The upgrade request goes through the context and auth middleware like
+   * any other route. Each subscription is then authorized for its own route,
+   * and runs with its own `abortSignal`, aborted by a `cancel` message or
+   * when the socket closes.
+   */
+  registerWebSocketRoute(): void {
+    if (!this.websocket) {
+      return;
     }
 
-    // 4. ALL method with wildcard
-    for (let i = pathParts.length; i > 0; i--) {
-      const wildcardPath = '/' + pathParts.slice(0, i).join('/') + '/*';
-      const allWildcardKey = `ALL:${wildcardPath}`;
-      if (this.routeAuthConfig.has(allWildcardKey)) {
-        return this.routeAuthConfig.get(allWildcardKey);
-      }
+    const path = `${this.prefix ?? ''}${this.websocket.path ?? DEFAULT_WEBSOCKET_PATH}`;
+
+    this.adapterRoutes.add(path);
+    this.app.ws(path, {
+      open: (ws: SocketConnection) => {
+        this.socketSubscriptions.set(ws.raw, new Map());
+      },
+      message: (ws: SocketConnection, message: unknown) => {
+        void this.handleSocketMessage(ws, message);
+      },
+      close: (ws: SocketConnection) => {
+        for (const abortController of this.socketSubscriptions.get(ws.raw)?.values() ?? []) {
+          abortController.abort(new Error('WebSocket closed'));
+        }
+        this.socketSubscriptions.delete(ws.raw);
+      },
+    });
+
+    this.log.debug?.('WebSocket route registered', { route: path });
+  }
+
+  /**
+   * Checks if a route has an auth override in customRouteAuthConfig.
+   * Returns true to require auth, false to skip auth, undefined for default behavior.
+   * Only exact paths and `*` prefixes match; `:param` segments are literal.
+   */
+  private checkRouteAuthOverride(request: Request): boolean | undefined {
+    if (!this.routeAuthConfig) {
+      return undefined;
     }
 
-    return undefined;
+    const url = new URL(request.url);
+    return matchRouteConfig(this.routeAuthConfig, request.method, url.pathname, {
+      params: false,
+    });
   }
 
   /**
-   * Type-safe extraction of authorize function from auth config.
+   * Fills the trusted request context keys sourced from the authenticated
+   * user and the claims of their token.
    */
-  private getAuthorizeFunction(
+  private setTrustedAuthValues(context: object, user: TUser, token: string): void {
+    const { requestContext } = context as Partial<MastraDeriveContext>;
+    if (!this.trustedContext || !requestContext) {
+      return;
+    }
+
+    const values = trustedAuthValues(user, decodeJwtClaims(token), this.trustedContext);
+    for (const [key, value] of Object.entries(values)) {
+      requestContext.set(key, value);
+    }
+  }
+
+  /**
+   * Returns the `auth` option, falling back to the auth config of Mastra's
+   * server config.
+   */
+  private getAuthConfig(): ElysiaAuthConfig<TUser> | undefined {
+    return this.auth ?? (this.mastra.getServer()?.auth as ElysiaAuthConfig<TUser> | undefined);
+  }
+
+  /**
+   * Runs the configured authorize/authorizeUser function for a request.
+   * Returns true when neither is configured, and false when it throws.
+   */
+  private async isAuthorized(
+    authConfig: unknown,
+    request: Request,
+    user: unknown,
+    context: object
+  ): Promise<boolean> {
+    const authorizeFunc = this.getAuthorizeFunction(authConfig);
+    const authorizeUserFunc = this.getAuthorizeUserFunction(authConfig);
+
+    if (!authorizeFunc && !authorizeUserFunc) {
+      return true;
+    }
+
+    try {
+      return await this.traceStep(request, 'mastra.auth.authorize', async () => {
+        if (authorizeFunc) {
+          const url = new URL(request.url);
+          const path = url.pathname;
+          const method = request.method;
+          return authorizeFunc(path, method, user, context);
+        }
+        return authorizeUserFunc ? authorizeUserFunc(user, request) : true;
+      });
+    } catch (error) {
+      this.log.error('Authorization error', error, {
+        ...requestLogFields(context),
+        method: request.method,
+        path: new URL(request.url).pathname,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Returns the bearer token a WebSocket upgrade request passes in the
+   * `tokenParam` query parameter, if the WebSocket endpoint is enabled.
+   */
+  private upgradeToken(request: Request): string | undefined {
+    const tokenParam = this.websocket?.tokenParam ?? DEFAULT_TOKEN_PARAM;
+    if (!this.websocket || !tokenParam || !isWebSocketUpgrade(request)) {
+      return undefined;
+    }
+    return new URL(request.url).searchParams.get(tokenParam) ?? undefined;
+  }
+
+  /**
+   * Type-safe extraction of authorize function from auth config.
+   */
+  private getAuthorizeFunction(
     authConfig: unknown
   ):
     | ((
@@ -430,6 +1154,7 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
    * - Parameter extraction and validation
    * - Handler execution and response sending
    * - Validation error handling with 400 status
+   * - Resuming SSE runs from the replay store (Last-Event-ID)
    *
    * @param app - The Elysia app instance
    * @param route - The route definition from Mastra
@@ -444,53 +1169,24 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
     const method = route.method.toLowerCase();
 
     const handler = async (context: Context) => {
-      try {
-        // 1. Extract parameters from request
-        const params = await this.getParams(route, context);
+      const startedAt = performance.now();
+      let response: unknown;
 
-        // 2. Validate parameters with Zod schemas
-        const pathParams = await this.parsePathParams(route, params.urlParams);
-        const queryParams = await this.parseQueryParams(
-          route,
-          params.queryParams as Record<string, string>
-        );
-        const body = await this.parseBody(route, params.body);
-
-        // 3. Get context values from derive middleware
-        const derivedContext = context as unknown as MastraDeriveContext &
-          Partial<MastraAuthContext>;
-
-        // 4. Merge body requestContext if present
-        let requestContext = derivedContext.requestContext;
-        if (body && typeof body === 'object' && 'requestContext' in body) {
-          const bodyWithContext = body as { requestContext?: Record<string, unknown> };
-          requestContext = this.mergeRequestContext({
-            paramsRequestContext: requestContext as unknown as Record<string, unknown> | undefined,
-            bodyRequestContext: bodyWithContext.requestContext,
-          });
-        }
-
-        // 5. Build handler params object
-        const handlerParams = {
-          ...pathParams,
-          ...queryParams,
-          ...(typeof body === 'object' && body !== null ? body : {}),
-          mastra: derivedContext.mastra,
-          requestContext,
-          tools: derivedContext.tools ?? {},
-          abortSignal: derivedContext.abortSignal,
-          taskStore: derivedContext.taskStore,
-          user: derivedContext.user,
-        };
-
-        // 6. Call route handler
-        const result = await route.handler(handlerParams as Parameters<typeof route.handler>[0]);
-
-        // 7. Send response based on route's response type
-        return this.sendResponse(route, context, result);
+      try {
+        // Resume an interrupted SSE run instead of calling the handler again
+        response =
+          (await this.resumeStream(route, context)) ?? (await this.handleRoute(route, context));
       } catch (error) {
-        return this.handleRouteError(error, route, fullPath, context);
+        response = await this.handleRouteError(error, route, fullPath, context);
       }
+
+      if (this.compression) {
+        response = await this.compressResponse(route, context, response);
+      }
+
+      return this.accessLog || this.metrics || this.tracer
+        ? this.recordRequest(route, fullPath, context, response, startedAt)
+        : response;
     };
 
     type AnyHandler = (ctx: Record<string, unknown>) => unknown;
@@ -519,59 +1215,433 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
         app.route(route.method.toUpperCase(), fullPath, anyHandler);
     }
 
-    this.log.debug?.(`Registered route: ${route.method} ${fullPath}`);
+    this.mastraRoutes.add(`${route.method.toUpperCase()} ${fullPath}`);
+    if ((route.responseType as string) === 'stream') {
+      this.streamRoutes.push({ route, path: fullPath });
+    }
+
+    this.log.debug?.('Registered route', { method: route.method, route: fullPath });
   }
 
   /**
-   * Handles errors that occur during route handler execution.
-   * Provides consistent error responses based on error type.
+   * Compresses a route response with the best coding the client accepts.
+   *
+   * JSON values and Responses with a known length are compressed when they
+   * reach the size threshold; streamed Responses are always compressed and
+   * flushed per chunk. Responses that are eligible get `Vary: Accept-Encoding`
+   * whether or not the client accepted a coding.
    */
-  private handleRouteError(
-    error: unknown,
+  private async compressResponse(
+    route: ServerRoute,
+    context: Context,
+    response: unknown
+  ): Promise<unknown> {
+    const options = this.compression as CompressionOptions;
+    const { request } = context;
+    const url = new URL(request.url);
+
+    if (
+      options.routes &&
+      matchRouteConfig(options.routes, request.method, url.pathname) === false
+    ) {
+      return response;
+    }
+
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    const encoding = preferredEncoding(
+      request.headers.get('accept-encoding'),
+      options.encodings ?? DEFAULT_ENCODINGS
+    );
+    // Elysia keeps a Response's own headers over `set.headers`, so Vary is merged here
+    const setVary = (context.set.headers['Vary'] ?? context.set.headers['vary'])?.toString();
+
+    if (response instanceof Response) {
+      const contentType = response.headers.get('content-type');
+      const contentLength = response.headers.get('content-length');
+      if (
+        !response.body ||
+        response.headers.has('content-encoding') ||
+        !isCompressible(contentType) ||
+        (contentLength !== null && Number(contentLength) < threshold)
+      ) {
+        return response;
+      }
+
+      // Live streams are compressed from the first chunk. Other bodies of
+      // unknown length, such as problem details, are read up to the threshold
+      let body = response.body;
+      const liveStream =
+        isStreamType(contentType) ||
+        ((route.responseType as string) === 'stream' && contentType === 'text/plain');
+      if (contentLength === null && !liveStream) {
+        const read = await readToThreshold(body, threshold);
+        if ('bytes' in read) {
+          return new Response(read.bytes, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+          });
+        }
+        body = read.stream;
+      }
+
+      const headers = new Headers(response.headers);
+      headers.set(
+        'Vary',
+        appendVary(appendVary(setVary, headers.get('vary') ?? ''), 'Accept-Encoding')
+      );
+      if (encoding) {
+        headers.set('Content-Encoding', encoding);
+        headers.delete('Content-Length');
+      }
+
+      return new Response(encoding ? compressStream(body, encoding) : body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
+    }
+
+    if (!isPlainObject(response) && !Array.isArray(response)) {
+      return response;
+    }
+
+    const body = new TextEncoder().encode(JSON.stringify(response));
+    if (body.byteLength < threshold) {
+      return response;
+    }
+
+    context.set.headers['Vary'] = appendVary(setVary, 'Accept-Encoding');
+    if (!encoding) {
+      return response;
+    }
+
+    return new Response(await compressBytes(body, encoding), {
+      status: resolveResponseStatus(context, response),
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Encoding': encoding,
+        Vary: context.set.headers['Vary'],
+      },
+    });
+  }
+
+  /**
+   * Runs a Mastra route handler and sends the result.
+   */
+  private async handleRoute(route: ServerRoute, context: Context): Promise<unknown> {
+    const { request } = context;
+    if (this.isDetachedRun(route, request)) {
+      this.startDetachedRun(request);
+    }
+
+    try {
+      const result = await this.callRouteHandler(route, context);
+
+      // Send response based on route's response type
+      return await this.sendResponse(route, context, result);
+    } finally {
+      // Streamed runs take their release and call it when they end
+      this.detachedRunReleases.get(request)?.();
+    }
+  }
+
+  /**
+   * Detaches a request's run, counting it against `maxRuns` until it ends.
+   * Throws a 429 error once that many detached runs are in progress.
+   */
+  private startDetachedRun(request: Request): void {
+    const maxRuns = this.detach?.maxRuns ?? DEFAULT_MAX_DETACHED_RUNS;
+    if (this.activeDetachedRuns >= maxRuns) {
+      throw Object.assign(new Error(`Too many detached runs in progress (max ${maxRuns})`), {
+        status: 429,
+      });
+    }
+
+    this.activeDetachedRuns++;
+    this.detachedRequests.add(request);
+    this.detachedRunReleases.set(request, () => {
+      this.detachedRunReleases.delete(request);
+      this.activeDetachedRuns--;
+    });
+  }
+
+  /**
+   * Calls a Mastra route handler: extracts and validates parameters, then
+   * builds the handler params from the derived context.
+   */
+  private async callRouteHandler(route: ServerRoute, context: Context): Promise<unknown> {
+    const { request } = context;
+
+    // 1. Extract parameters from request
+    const params = await this.traceStep(request, 'mastra.params', () =>
+      this.getParams(route, context)
+    );
+
+    // The chunk filter parameter is read by stream(), not by the handler
+    const chunkFilterParam = this.chunkFilterParam(route);
+    if (chunkFilterParam) {
+      delete params.queryParams[chunkFilterParam];
+    }
+
+    // 2. Validate parameters with Zod schemas
+    const { pathParams, queryParams, body } = await this.traceStep(
+      request,
+      'mastra.validate',
+      async () => ({
+        pathParams: await this.parsePathParams(route, params.urlParams),
+        queryParams: await this.parseQueryParams(
+          route,
+          params.queryParams as Record<string, string>
+        ),
+        body: await this.parseBody(route, params.body),
+      })
+    );
+
+    // 3. Get context values from derive middleware
+    const derivedContext = context as unknown as MastraDeriveContext & Partial<MastraAuthContext>;
+
+    // 4. Merge body requestContext if present (derived values, including requestId, win),
+    // validating the merged context against the schema if there is one
+    let requestContext = derivedContext.requestContext;
+    const bodyRequestContext =
+      body && typeof body === 'object' && 'requestContext' in body
+        ? (body as { requestContext?: Record<string, unknown> }).requestContext
+        : undefined;
+    if (bodyRequestContext || this.requestContextValidation) {
+      requestContext = this.mergeBodyRequestContext(requestContext, bodyRequestContext);
+    }
+
+    // 5. Build handler params object
+    const handlerParams = {
+      ...pathParams,
+      ...queryParams,
+      ...(typeof body === 'object' && body !== null ? body : {}),
+      mastra: derivedContext.mastra,
+      requestContext,
+      tools: derivedContext.tools ?? {},
+      abortSignal: derivedContext.abortSignal,
+      taskStore: derivedContext.taskStore,
+      user: derivedContext.user,
+    };
+
+    // 6. Call route handler
+    return this.traceStep(request, 'mastra.handler', () =>
+      route.handler(handlerParams as Parameters<typeof route.handler>[0])
+    );
+  }
+
+  /**
+   * Merges a body's request context under the derived one.
+   *
+   * Trusted keys are never taken from the body. With a request context
+   * schema, the values clients may have sent (the body's and those of the
+   * schema's keys) are validated together, and the validation error is
+   * thrown. Values the adapter or middleware set under other keys are kept
+   * as they are.
+   */
+  private mergeBodyRequestContext(
+    requestContext: RequestContext,
+    bodyRequestContext: Record<string, unknown> | undefined
+  ): RequestContext {
+    const derived = Object.fromEntries(requestContext.entries());
+    const bodyValues = withoutTrustedKeys(bodyRequestContext, this.trustedKeys);
+    const validation = this.requestContextValidation;
+    if (!validation) {
+      return this.mergeRequestContext({
+        paramsRequestContext: derived,
+        bodyRequestContext: bodyValues,
+      });
+    }
+
+    const schemaKeys = new Set(Object.keys(validation.schema.shape));
+    const clientValues: Record<string, unknown> = { ...bodyValues };
+    const serverValues: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(derived)) {
+      if (schemaKeys.has(key)) {
+        clientValues[key] = value;
+      } else {
+        serverValues[key] = value;
+      }
+    }
+
+    const result = validateRequestContext(clientValues, validation);
+    if (!result.success) {
+      throw result.error;
+    }
+
+    return this.mergeRequestContext({
+      paramsRequestContext: serverValues,
+      bodyRequestContext: result.data,
+    });
+  }
+
+  /**
+   * Records a handled Mastra route request in the access log, metrics and
+   * request span.
+   *
+   * Plain values are recorded immediately. Response bodies are wrapped so
+   * bytes are counted as they are sent, and the request is recorded when the
+   * body closes, which for streams is when the stream ends or the client
+   * disconnects.
+   */
+  private recordRequest(
     route: ServerRoute,
     fullPath: string,
-    context: Context
+    context: Context,
+    response: unknown,
+    startedAt: number
   ): unknown {
-    const err = error as {
-      status?: number;
-      details?: { status?: number };
-      message?: string;
-      name?: string;
-      issues?: unknown[];
-      errors?: unknown[];
+    const status = resolveResponseStatus(context, response);
+
+    const emit = (
+      fields: Pick<AccessLogEntry, 'ttfbMs' | 'durationMs' | 'bytesSent' | 'outcome'>
+    ) => {
+      const entry: AccessLogEntry = {
+        ...requestLogFields(context),
+        method: context.request.method,
+        route: fullPath,
+        path: new URL(context.request.url).pathname,
+        status,
+        responseType: route.responseType as string,
+        ...fields,
+      };
+
+      this.metrics?.observeRequest(entry.method, fullPath, status, entry.durationMs / 1000);
+      this.endRequestTrace(context.request, status);
+
+      if (!this.accessLog) {
+        return;
+      }
+
+      const { level = 'info', onEntry } = this.accessLog;
+      if (level === 'error') {
+        this.log.error('Request completed', undefined, entry);
+      } else {
+        this.log[level]?.('Request completed', entry);
+      }
+
+      try {
+        onEntry?.(entry);
+      } catch (error) {
+        this.log.error('Access log onEntry failed', error, { requestId: entry.requestId });
+      }
     };
 
-    this.log.error(`Error in route ${route.method} ${fullPath}`, error);
+    if (!(response instanceof Response)) {
+      const durationMs = elapsedMs(startedAt);
+      emit({
+        ttfbMs: durationMs,
+        durationMs,
+        bytesSent: serializedByteLength(response),
+        outcome: 'complete',
+      });
+      return response;
+    }
+
+    let ttfbMs: number | undefined;
+    return measureResponseBody(response, {
+      onFirstByte: () => {
+        ttfbMs = elapsedMs(startedAt);
+      },
+      onClose: (bytesSent, outcome) => {
+        const durationMs = elapsedMs(startedAt);
+        emit({ ttfbMs: ttfbMs ?? durationMs, durationMs, bytesSent, outcome });
+      },
+    });
+  }
 
-    const isValidationError =
-      err.name === 'ZodError' ||
-      err.status === 400 ||
-      err.details?.status === 400 ||
-      (err.message && err.message.toLowerCase().includes('validation'));
+  /**
+   * Whether a request is for one of the registered Mastra routes.
+   */
+  private isMastraRoute(request: Request, route: string): boolean {
+    return (
+      this.mastraRoutes.has(`${request.method} ${route}`) || this.mastraRoutes.has(`ALL ${route}`)
+    );
+  }
 
-    const status = err.status ?? err.details?.status ?? (isValidationError ? 400 : 500);
+  /**
+   * Starts the request span for a Mastra route request when telemetry is on.
+   */
+  private startRequestTrace(request: Request, route: string): RequestTrace | undefined {
+    if (!this.tracer || !this.isMastraRoute(request, route)) {
+      return undefined;
+    }
 
-    context.set.status = status;
+    const requestTrace = startRequestSpan(this.tracer, request, route, this.trustIncomingTraces);
+    this.requestTraces.set(request, requestTrace);
+    return requestTrace;
+  }
 
-    if (status === 400 || isValidationError) {
-      return {
-        error: 'VALIDATION_ERROR',
-        message: err.message || 'Validation failed',
-        details: err.issues ?? err.errors ?? undefined,
-      };
+  /**
+   * Ends the request span of a traced request with the response status.
+   */
+  private endRequestTrace(request: Request, status: number): void {
+    const requestTrace = this.requestTraces.get(request);
+    if (requestTrace) {
+      this.requestTraces.delete(request);
+      endRequestSpan(requestTrace, status);
     }
+  }
 
-    if (status >= 500) {
-      return {
-        error: 'INTERNAL_ERROR',
-        message: 'An unexpected error occurred',
-      };
+  /**
+   * Runs a step of request handling in a child span of the request span.
+   * Untraced requests run the step directly.
+   */
+  private async traceStep<T>(request: Request, name: string, fn: () => Promise<T> | T): Promise<T> {
+    const requestTrace = this.requestTraces.get(request);
+    if (!this.tracer || !requestTrace) {
+      return fn();
     }
+    return withSpan(this.tracer, name, requestTrace.context, fn);
+  }
 
-    return {
-      error: 'ERROR',
-      message: err.message || 'An error occurred',
-    };
+  /**
+   * Handles errors that occur during route handler execution.
+   * Maps the error through the configured errorMapper, falling back to
+   * RFC 9457 problem details when none is configured or it returns undefined.
+   */
+  private async handleRouteError(
+    error: unknown,
+    route: ServerRoute,
+    fullPath: string,
+    context: Context
+  ): Promise<Response> {
+    const log = this.log.child({
+      ...requestLogFields(context),
+      method: route.method,
+      route: fullPath,
+      path: new URL(context.request.url).pathname,
+    });
+
+    // Without the context middleware, mappers still get an id resolved with the server's options
+    const derived = context as unknown as { requestId?: string };
+    derived.requestId ||= getRequestId(context, this.requestIdOptions);
+
+    let mapped: ErrorMapperResult | undefined;
+    if (this.errorMapper) {
+      try {
+        mapped = await this.errorMapper(error, route, context);
+      } catch (mapperError) {
+        log.error('Error mapper failed', mapperError);
+      }
+    }
+
+    const { status, body, headers } = mapped ?? defaultErrorMapper(error, route, context);
+    log.error('Route error', error, { status });
+
+    // Elysia applies set.status over the status of a returned Response
+    context.set.status = status;
+
+    const responseHeaders = new Headers(headers);
+    if (!responseHeaders.has('Content-Type')) {
+      responseHeaders.set('Content-Type', 'application/json');
+    }
+
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: responseHeaders,
+    });
   }
 
   /**
@@ -639,9 +1709,9 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
     options: { prefix?: string }
   ): Promise<void> {
     await super.registerOpenAPIRoute(app, config, options);
-    this.log.debug?.(
-      `OpenAPI route registered at ${options.prefix ?? ''}${config.path ?? '/openapi.json'}`
-    );
+    this.log.debug?.('OpenAPI route registered', {
+      route: `${options.prefix ?? ''}${config.path ?? '/openapi.json'}`,
+    });
   }
 
   /**
@@ -662,11 +1732,18 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
     const responseType = route.responseType as string;
 
     switch (responseType) {
-      case 'stream':
-        return this.stream(route, response, result);
+      case 'stream': {
+        const format = this.negotiateStreamFormat(response);
+        if (format === 'json') {
+          return this.bufferStream(route, response, result);
+        }
+        return this.stream(format ? { ...route, streamFormat: format } : route, response, result);
+      }
 
       case 'json':
-        return result;
+        return this.redactor
+          ? this.redactor.redact(result, this.redactionContext(route, response, 'json'))
+          : result;
 
       case 'datastream-response':
         if (result instanceof Response) {
@@ -745,87 +1822,936 @@ export class ElysiaServer extends MastraServer<AnyElysia, Context, Context> {
    * result's fullStream, applies redaction if configured, and formats output
    * according to the stream format (SSE or ndjson).
    *
+   * For Mastra `stream` routes, SSE events carry the request id (when the
+   * context middleware is registered) so clients can correlate them with logs.
+   *
    * @param route - The route definition containing streamFormat
-   * @param _response - The Elysia context (unused, we return a Response directly)
+   * @param response - The Elysia context (read for the request id; we return a Response directly)
    * @param result - The streaming result with fullStream property
    * @returns A Response object with the streaming body
    */
-  async stream(route: ServerRoute, _response: Context, result: unknown): Promise<unknown> {
+  async stream(route: ServerRoute, response: Context, result: unknown): Promise<unknown> {
     const isSSE = route.streamFormat === 'sse';
+    const framing = STREAM_FRAMINGS[this.resolveFraming(response)];
+    const logFields = requestLogFields(response);
+    const routePath = `${this.prefix ?? ''}${route.path}`;
+    const logger = this.log.child({ ...logFields, method: route.method, route: routePath });
 
     const streamResult = result as StreamResult;
 
     if (!streamResult?.fullStream) {
-      this.log.error('Stream result missing fullStream property', result);
+      logger.error('Stream result missing fullStream property', result);
       throw new Error('Stream result must have a fullStream property');
     }
 
     const reader = streamResult.fullStream.getReader();
-
     const shouldRedact = this.streamOptions?.redact ?? true;
-    const logger = this.log;
+    const redactionContext = this.redactionContext(route, response, 'stream');
+
+    // MCP messages are forwarded untouched
+    const isMastraStream = (route.responseType as string) === 'stream';
+    const eventRequestId = isMastraStream ? logFields.requestId : undefined;
+    const chunkFilters = isMastraStream ? this.chunkFilters(response) : [];
+
+    // Event ids are `<runId>:<n>` so Last-Event-ID identifies the run to resume
+    const runId = crypto.randomUUID();
+    const tee = isMastraStream ? this.createStreamTee(route, response, runId) : undefined;
+    const detached = response.request ? this.detachedRequests.has(response.request) : false;
+    const replayStore = detached ? this.runStore : isSSE ? this.replayStore : undefined;
+    let eventId = 0;
+    if (replayStore) {
+      const path = response.request ? new URL(response.request.url).pathname : routePath;
+      await replayStore.create(runId, path, this.runOwner(response));
+    }
 
-    // Create a ReadableStream that processes and formats chunks
-    const outputStream = new ReadableStream({
-      async pull(controller) {
+    // A detached run holds its slot until it ends, not until the response is sent
+    const releaseRun = response.request && this.detachedRunReleases.get(response.request);
+    if (releaseRun) {
+      this.detachedRunReleases.delete(response.request);
+    }
+
+    /**
+     * Reads the next chunk from the source, redacts it and passes it to the
+     * stream hooks, then skips it if the chunk filters drop it.
+     */
+    const readChunk = async (): Promise<{ done: boolean; value?: unknown }> => {
+      while (true) {
+        let result: { done: boolean; value?: unknown };
         try {
-          const { done, value } = await reader.read();
+          result = await reader.read();
+        } catch (error) {
+          tee?.complete('error', error);
+          throw error;
+        }
 
-          if (done) {
-            if (isSSE) {
-              controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-            }
-            controller.close();
-            return;
-          }
+        if (result.done) {
+          tee?.complete('complete');
+          return result;
+        }
+
+        const chunk = this.redactChunk(result.value, redactionContext);
+        tee?.chunk(chunk);
+        const value = chunkFilters.length > 0 ? filterChunk(chunk, chunkFilters) : chunk;
+        if (value !== undefined) {
+          return { done: false, value };
+        }
+      }
+    };
 
-          // Apply redaction if enabled
-          const processedChunk = shouldRedact ? redactStreamChunk(value) : value;
+    /**
+     * Reads the next chunk from the source and formats it for the wire.
+     * Returns undefined once the source is done.
+     */
+    const nextChunk = async (): Promise<string | undefined> => {
+      const { done, value: processedChunk } = await readChunk();
 
-          // Format based on stream format
-          let formattedChunk: string;
+      if (done) {
+        await endRun();
+        return undefined;
+      }
+
+      if (!isSSE && !replayStore) {
+        // ndjson, json-seq or legacy framing around {json}
+        return framing.prefix + JSON.stringify(processedChunk) + framing.suffix;
+      }
+
+      // SSE format: id, event name from the chunk type, data: {json}.
+      // Detached runs record these events whatever the client's format.
+      const eventData =
+        eventRequestId && isPlainObject(processedChunk)
+          ? { ...processedChunk, requestId: eventRequestId }
+          : processedChunk;
+      const event: ReplayEvent = {
+        id: ++eventId,
+        event: sseEventName(processedChunk),
+        data: JSON.stringify(eventData),
+      };
+      await replayStore?.append(runId, event);
+      return isSSE
+        ? formatSseEvent(runId, event)
+        : framing.prefix + JSON.stringify(processedChunk) + framing.suffix;
+    };
+
+    const metrics = this.metrics;
+    const requestTrace = response.request && this.requestTraces.get(response.request);
+    const streamSpan =
+      this.tracer && requestTrace
+        ? this.tracer.startSpan('mastra.stream', undefined, requestTrace.context)
+        : undefined;
+
+    const { heartbeatMs, maxBufferedBytes, maxDurationMs, idleTimeoutMs } = this.streamConfig;
+    let heartbeat: ReturnType<typeof createHeartbeat> | undefined;
+    let durationTimer: ReturnType<typeof setTimeout> | undefined;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    let open = true;
+    let chunkCount = 0;
+    const closeStream = (outcome: BodyOutcome, error?: unknown) => {
+      if (!open) {
+        return;
+      }
+      open = false;
+      heartbeat?.stop();
+      clearTimeout(durationTimer);
+      clearTimeout(idleTimer);
+      metrics?.trackStream(routePath, -1);
+
+      if (streamSpan) {
+        streamSpan.setAttributes({
+          'mastra.stream.chunks': chunkCount,
+          'mastra.stream.outcome': outcome,
+        });
+        if (outcome === 'error') {
+          recordSpanError(streamSpan, error);
+        }
+        streamSpan.end();
+      }
+    };
+
+    /**
+     * Keeps recording the run after the client disconnected, so a client that
+     * reconnects with Last-Event-ID can resume it.
+     */
+    const recordRemainingEvents = async () => {
+      try {
+        while ((await nextChunk()) !== undefined) {
+          // Events are appended to the replay store by nextChunk
+        }
+      } catch (error) {
+        logger.error('Stream error', error);
+        await endRun(toErrorEvent(error));
+      }
+    };
+
+    /**
+     * Builds the error event a failed source ends the stream with.
+     */
+    const toErrorEvent = (error: unknown): StreamErrorEvent => {
+      const errorEvent = streamErrorEvent(error, {
+        redact: shouldRedact,
+        requestId: logFields.requestId,
+      });
+      if (this.redactor) {
+        errorEvent.message = this.redactor.scrub(errorEvent.message);
+      }
+      return errorEvent;
+    };
+
+    let runEnded = false;
+
+    /**
+     * Marks the run as ended in the replay store, once. A run ended early
+     * records its error event first, so replays and reattached clients see
+     * the failure instead of a clean completion.
+     */
+    const endRun = async (errorEvent?: StreamErrorEvent) => {
+      if (runEnded || !replayStore) {
+        return;
+      }
+      runEnded = true;
+      releaseRun?.();
+
+      if (errorEvent) {
+        await replayStore.append(runId, {
+          id: ++eventId,
+          event: 'error',
+          data: JSON.stringify(errorEvent),
+          terminal: true,
+        });
+      }
+      await replayStore.complete(runId);
+    };
+
+    const abortController = response.request && this.abortControllers.get(response.request);
+
+    /**
+     * Ends the stream with an error event when a stream limit is reached,
+     * and stops the run: the source is cancelled and the abortSignal fires.
+     */
+    const exceedLimit = (
+      controller: ReadableStreamDefaultController<Uint8Array>,
+      reason: StreamLimitReason
+    ) => {
+      if (!open) {
+        return;
+      }
+
+      const message = `Stream limit reached: ${reason}`;
+      logger.warn(message, { reason });
+      const errorEvent: StreamErrorEvent = {
+        code: 'stream_limit_exceeded',
+        message,
+        reason,
+        ...(logFields.requestId ? { requestId: logFields.requestId } : {}),
+      };
+
+      controller.enqueue(
+        new TextEncoder().encode(formatStreamError(isSSE ? undefined : framing, errorEvent))
+      );
+      controller.close();
+      const error = new Error(message);
+      closeStream('error', error);
+      tee?.complete('error', error);
+
+      void endRun(errorEvent);
+      reader.cancel(error).catch(() => {});
+      abortController?.abort(error);
+    };
+
+    const resetIdleTimer = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      if (idleTimeoutMs && idleTimeoutMs > 0) {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => exceedLimit(controller, 'idle_timeout'), idleTimeoutMs);
+      }
+    };
+
+    // A pull may still be reading when the client disconnects or a limit is
+    // reached; its chunk is recorded but no longer enqueued, and draining
+    // continues after a disconnect
+    let inFlight: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Reads, formats and enqueues the next chunk, closing the stream once the
+     * source is done.
+     */
+    const forwardChunk = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      try {
+        const pending = nextChunk();
+        inFlight = pending.catch(() => {});
+        const formattedChunk = await pending;
+        if (!open) {
+          return;
+        }
+
+        if (formattedChunk === undefined) {
           if (isSSE) {
-            // SSE format: data: {json}\n\n
-            formattedChunk = `data: ${JSON.stringify(processedChunk)}\n\n`;
+            controller.enqueue(new TextEncoder().encode(SSE_DONE_EVENT));
+          }
+          controller.close();
+          closeStream('complete');
+          return;
+        }
+
+        controller.enqueue(new TextEncoder().encode(formattedChunk));
+        heartbeat?.reset();
+        resetIdleTimer(controller);
+        chunkCount++;
+        metrics?.countStreamChunk(routePath);
+
+        // The queue only grows past the limit when the client reads slower than the run
+        if (maxBufferedBytes !== undefined && (controller.desiredSize ?? 0) < 0) {
+          exceedLimit(controller, 'max_buffered_bytes');
+        }
+      } catch (error) {
+        if (!open) {
+          return;
+        }
+        logger.error('Stream error', error);
+
+        // End with an error event rather than a reset, so clients can tell a
+        // failed run from a dropped connection
+        const errorEvent = toErrorEvent(error);
+        controller.enqueue(
+          new TextEncoder().encode(formatStreamError(isSSE ? undefined : framing, errorEvent))
+        );
+        controller.close();
+        closeStream('error', error);
+        await endRun(errorEvent);
+        await reader.cancel().catch(() => {});
+      }
+    };
+
+    // Create a ReadableStream that processes and formats chunks. Chunks are
+    // read as the client pulls them, except with maxBufferedBytes: then the
+    // source is read ahead of the client, into a queue bounded by that limit.
+    const outputStream = new ReadableStream<Uint8Array>(
+      {
+        start(controller) {
+          heartbeat = createHeartbeat(
+            controller,
+            heartbeatMs,
+            isSSE ? SSE_HEARTBEAT : framing.prefix + framing.suffix
+          );
+          heartbeat.reset();
+          resetIdleTimer(controller);
+          if (maxDurationMs && maxDurationMs > 0) {
+            durationTimer = setTimeout(
+              () => exceedLimit(controller, 'max_duration'),
+              maxDurationMs
+            );
+          }
+          if (maxBufferedBytes !== undefined) {
+            void (async () => {
+              while (open) {
+                await forwardChunk(controller);
+              }
+            })();
+          }
+        },
+        async pull(controller) {
+          if (maxBufferedBytes === undefined) {
+            await forwardChunk(controller);
+          }
+        },
+        cancel() {
+          closeStream('cancelled');
+          if (replayStore) {
+            void inFlight.then(recordRemainingEvents);
           } else {
-            // ndjson format: {json} followed by record separator (0x1E)
-            formattedChunk = JSON.stringify(processedChunk) + '\x1E';
+            tee?.complete('cancelled');
+            reader.cancel().catch(() => {});
           }
+        },
+      },
+      maxBufferedBytes !== undefined
+        ? new ByteLengthQueuingStrategy({ highWaterMark: maxBufferedBytes })
+        : undefined
+    );
+    metrics?.trackStream(routePath, 1);
 
-          controller.enqueue(new TextEncoder().encode(formattedChunk));
-        } catch (error) {
-          logger.error('Stream error', error);
-          await reader.cancel();
-          controller.error(error);
+    const headers = this.negotiatedHeaders(
+      streamHeaders(isSSE ? 'text/event-stream' : framing.contentType),
+      (route.responseType as string) === 'stream' && this.negotiatesAccept(isSSE)
+    );
+    if (detached) {
+      headers[RUN_ID_HEADER] = runId;
+    }
+
+    return new Response(outputStream, { status: 200, headers });
+  }
+
+  /**
+   * Chooses the record framing for a non-SSE stream: the client's `Accept`
+   * preference when negotiation is on, then the matching `routeFraming`
+   * entry, then the server-wide `framing`.
+   */
+  private resolveFraming(context: Context): StreamFraming {
+    const { framing = 'legacy', routeFraming, negotiateFraming = true } = this.streamConfig;
+    const request = context.request as Request | undefined;
+    if (!request) {
+      return framing;
+    }
+
+    const accepted =
+      negotiateFraming || this.streamConfig.negotiateFormat
+        ? preferredMediaType(request.headers.get('accept'), Object.keys(FRAMING_MEDIA_TYPES))
+        : undefined;
+    if (accepted) {
+      return FRAMING_MEDIA_TYPES[accepted] as StreamFraming;
+    }
+
+    const routeMatch = routeFraming
+      ? matchRouteConfig(routeFraming, request.method, new URL(request.url).pathname)
+      : undefined;
+    return routeMatch ?? framing;
+  }
+
+  /**
+   * Handles a WebSocket client message: starts or cancels a subscription.
+   */
+  private async handleSocketMessage(ws: SocketConnection, message: unknown): Promise<void> {
+    const subscriptions = this.socketSubscriptions.get(ws.raw);
+    const { requestId } = requestLogFields(ws.data);
+    const reject = (code: string, detail: string, id?: string) =>
+      sendSocketMessage(ws, socketError(id, code, detail, requestId));
+
+    const parsed = parseClientMessage(message);
+    if (!parsed || !subscriptions) {
+      reject('invalid_message', 'Expected a subscribe or cancel message');
+      return;
+    }
+
+    if (parsed.type === 'cancel') {
+      subscriptions.get(parsed.id)?.abort(new Error('Subscription cancelled'));
+      return;
+    }
+
+    if (subscriptions.has(parsed.id)) {
+      reject('duplicate_subscription', `Subscription ${parsed.id} is already running`, parsed.id);
+      return;
+    }
+    const maxSubscriptions = this.websocket?.maxSubscriptions ?? DEFAULT_MAX_SUBSCRIPTIONS;
+    if (subscriptions.size >= maxSubscriptions) {
+      reject(
+        'too_many_subscriptions',
+        `At most ${maxSubscriptions} subscriptions can run`,
+        parsed.id
+      );
+      return;
+    }
+
+    const abortController = new AbortController();
+    subscriptions.set(parsed.id, abortController);
+    try {
+      await this.runSubscription(ws, parsed, abortController.signal);
+    } finally {
+      subscriptions.delete(parsed.id);
+    }
+  }
+
+  /**
+   * Runs the `stream` route a WebSocket subscription asks for, sending its
+   * chunks until the run ends, fails or is cancelled.
+   *
+   * The route sees a request for its own path and method, carrying the
+   * upgrade request's headers, so route auth, chunk filters, redaction and
+   * stream hooks apply as they do over HTTP.
+   */
+  private async runSubscription(
+    ws: SocketConnection,
+    message: Extract<WebSocketClientMessage, { type: 'subscribe' }>,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const { id } = message;
+    const upgrade = ws.data as Context & MastraDeriveContext & Partial<MastraAuthContext>;
+    const logFields = requestLogFields(upgrade);
+    const fail = (code: string, detail: string) =>
+      sendSocketMessage(ws, socketError(id, code, detail, logFields.requestId));
+
+    const url = new URL(message.path, upgrade.request.url);
+    const method = (message.method ?? 'POST').toUpperCase();
+    const match = this.streamRoutes
+      .filter(({ route }) => route.method.toUpperCase() === method)
+      .map(({ route, path }) => ({ route, path, params: matchPathParams(path, url.pathname) }))
+      .find(({ params }) => params !== undefined);
+
+    if (!match) {
+      fail('not_found', `No stream route matches ${method} ${url.pathname}`);
+      return;
+    }
+
+    const { route, path: routePath } = match;
+    const request = new Request(url.href, {
+      method,
+      headers: upgrade.request.headers,
+      signal: abortSignal,
+    });
+
+    // Like HTTP requests, public routes skip authentication but not authorize
+    const authConfig = this.getAuthConfig();
+    if (authConfig) {
+      if (
+        authConfig.authenticateToken &&
+        !upgrade.user &&
+        this.checkRouteAuthOverride(request) !== false
+      ) {
+        fail('unauthorized', 'Unauthorized');
+        return;
+      }
+      if (!(await this.isAuthorized(authConfig, request, upgrade.user ?? null, upgrade))) {
+        fail('forbidden', 'Forbidden');
+        return;
+      }
+    }
+
+    // The subscription gets its own request context, so runs on the same
+    // socket do not share state
+    const requestContext = this.mergeRequestContext({
+      paramsRequestContext: Object.fromEntries(upgrade.requestContext.entries()),
+      bodyRequestContext: undefined,
+    });
+    const context = {
+      ...upgrade,
+      request,
+      params: match.params,
+      query: Object.fromEntries(url.searchParams),
+      body: message.body,
+      requestContext,
+      abortSignal,
+    } as unknown as Context;
+
+    const logger = this.log.child({ ...logFields, method, route: routePath, subscriptionId: id });
+    let tee: StreamTee | undefined;
+    let reader: { cancel(reason?: unknown): Promise<void> } | undefined;
+    const cancel = () => {
+      reader?.cancel(abortSignal.reason).catch(() => {});
+    };
+    abortSignal.addEventListener('abort', cancel, { once: true });
+    this.metrics?.trackStream(routePath, 1);
+
+    try {
+      const result = (await this.callRouteHandler(route, context)) as StreamResult;
+      if (!result?.fullStream) {
+        throw new Error('Stream result must have a fullStream property');
+      }
+
+      tee = this.createStreamTee(route, context, crypto.randomUUID());
+      const source = result.fullStream.getReader();
+      reader = source;
+      if (abortSignal.aborted) {
+        cancel();
+      }
+
+      const redactionContext = this.redactionContext(route, context, 'stream');
+      const chunkFilters = this.chunkFilters(context);
+      while (true) {
+        const { done, value } = await source.read();
+        if (done || abortSignal.aborted) {
+          break;
+        }
+
+        const chunk = this.redactChunk(value, redactionContext);
+        tee?.chunk(chunk);
+        const filtered = chunkFilters.length > 0 ? filterChunk(chunk, chunkFilters) : chunk;
+        if (filtered !== undefined) {
+          sendSocketMessage(ws, { type: 'chunk', id, chunk: filtered });
+          this.metrics?.countStreamChunk(routePath);
+        }
+      }
+
+      tee?.complete(abortSignal.aborted ? 'cancelled' : 'complete');
+      sendSocketMessage(ws, { type: 'done', id });
+    } catch (error) {
+      if (abortSignal.aborted) {
+        tee?.complete('cancelled');
+        sendSocketMessage(ws, { type: 'done', id });
+        return;
+      }
+
+      logger.error('Stream error', error);
+      tee?.complete('error', error);
+      const errorEvent = streamErrorEvent(error, {
+        redact: this.streamOptions?.redact ?? true,
+        requestId: logFields.requestId,
+      });
+      if (this.redactor) {
+        errorEvent.message = this.redactor.scrub(errorEvent.message);
+      }
+      sendSocketMessage(ws, { type: 'error', id, error: errorEvent });
+    } finally {
+      abortSignal.removeEventListener('abort', cancel);
+      this.metrics?.trackStream(routePath, -1);
+    }
+  }
+
+  /**
+   * Whether a `stream` route run is detached from its client: never for
+   * routes set to `false`, else by the detach header when the request sends
+   * it, else by the route's default.
+   */
+  private isDetachedRun(route: ServerRoute, request: Request): boolean {
+    if (!this.detach || (route.responseType as string) !== 'stream') {
+      return false;
+    }
+
+    const { header = DETACH_HEADER, routes } = this.detach;
+    const routeDefault = routes
+      ? matchRouteConfig(routes, request.method, new URL(request.url).pathname)
+      : undefined;
+    if (routeDefault === false) {
+      return false;
+    }
+
+    const requested = header ? request.headers.get(header)?.trim().toLowerCase() : undefined;
+    if (requested === 'true' || requested === '1') {
+      return true;
+    }
+    if (requested === 'false' || requested === '0') {
+      return false;
+    }
+
+    return routeDefault ?? false;
+  }
+
+  /**
+   * Returns the id of the authenticated user behind a request, recorded as
+   * the owner of the runs it starts.
+   */
+  private runOwner(context: Context): string | undefined {
+    const user = (context as unknown as Partial<MastraAuthContext>).user;
+    if (user === null || user === undefined) {
+      return undefined;
+    }
+
+    const owner = this.streamConfig.runOwner
+      ? this.streamConfig.runOwner(user)
+      : (user as { id?: unknown }).id;
+    return owner === null || owner === undefined ? undefined : String(owner);
+  }
+
+  /**
+   * Whether a request may resume or reattach to a run: runs with an owner
+   * are only open to that user.
+   */
+  private isRunOwner(run: ReplayRun, context: Context): boolean {
+    return run.owner === undefined || run.owner === this.runOwner(context);
+  }
+
+  /**
+   * Returns the query parameter that filters the chunks of a `stream` route,
+   * or undefined when the route does not stream or the parameter is disabled.
+   */
+  private chunkFilterParam(route: ServerRoute): string | undefined {
+    const { chunkFilterParam = DEFAULT_CHUNK_FILTER_PARAM } = this.streamConfig;
+    return (route.responseType as string) === 'stream' && chunkFilterParam
+      ? chunkFilterParam
+      : undefined;
+  }
+
+  /**
+   * Returns the chunk filters for a stream request: the route's filter from
+   * `routeChunkFilters`, or `chunkFilter`, then the request's query filter.
+   */
+  private chunkFilters(context: Context): ChunkFilter[] {
+    const {
+      chunkFilter,
+      routeChunkFilters,
+      chunkFilterParam = DEFAULT_CHUNK_FILTER_PARAM,
+    } = this.streamConfig;
+    const request = context.request as Request | undefined;
+    if (!request) {
+      return chunkFilter ? [chunkFilter] : [];
+    }
+
+    const url = new URL(request.url);
+    const routeFilter =
+      (routeChunkFilters && matchRouteConfig(routeChunkFilters, request.method, url.pathname)) ??
+      chunkFilter;
+    const queryValue = chunkFilterParam ? url.searchParams.get(chunkFilterParam) : null;
+
+    return [routeFilter, queryValue ? parseChunkFilter(queryValue) : undefined].filter(
+      (filter): filter is ChunkFilter => filter !== undefined
+    );
+  }
+
+  /**
+   * Whether the wire format of a `stream` route response depends on the
+   * client's `Accept` header.
+   */
+  private negotiatesAccept(isSSE: boolean): boolean {
+    const { negotiateFraming = true, negotiateFormat = false } = this.streamConfig;
+    return negotiateFormat || (!isSSE && negotiateFraming);
+  }
+
+  /**
+   * Adds `Vary: Accept` to negotiated responses, so caches keep the formats apart.
+   */
+  private negotiatedHeaders(
+    headers: Record<string, string>,
+    negotiated: boolean
+  ): Record<string, string> {
+    if (negotiated) {
+      headers['Vary'] = 'Accept';
+    }
+    return headers;
+  }
+
+  /**
+   * Picks the response format of a `stream` route from the `Accept` header
+   * when `negotiateFormat` is on: SSE, a record stream, or aggregated JSON.
+   * Returns undefined when the route's own `streamFormat` applies.
+   */
+  private negotiateStreamFormat(context: Context): 'sse' | 'stream' | 'json' | undefined {
+    const request = context.request as Request | undefined;
+    if (!this.streamConfig.negotiateFormat || !request) {
+      return undefined;
+    }
+
+    const accepted = preferredMediaType(request.headers.get('accept'), [
+      'text/event-stream',
+      ...Object.keys(FRAMING_MEDIA_TYPES),
+      'application/json',
+    ]);
+    switch (accepted) {
+      case undefined:
+        return undefined;
+      case 'text/event-stream':
+        return 'sse';
+      case 'application/json':
+        return 'json';
+      default:
+        return 'stream';
+    }
+  }
+
+  /**
+   * Consumes a stream route's `fullStream` and returns the aggregated result
+   * as JSON, for clients that asked for `application/json`.
+   */
+  private async bufferStream(
+    route: ServerRoute,
+    context: Context,
+    result: unknown
+  ): Promise<AggregatedStreamResult> {
+    const streamResult = result as StreamResult;
+    if (!streamResult?.fullStream) {
+      throw new Error('Stream result must have a fullStream property');
+    }
+
+    const redactionContext = this.redactionContext(route, context, 'stream');
+    const chunkFilters = this.chunkFilters(context);
+    const tee = this.createStreamTee(route, context, crypto.randomUUID());
+    context.set.headers['Vary'] = 'Accept';
+
+    try {
+      const aggregated = await aggregateStream(streamResult.fullStream, (value) => {
+        const chunk = this.redactChunk(value, redactionContext);
+        tee?.chunk(chunk);
+        return chunkFilters.length > 0 ? filterChunk(chunk, chunkFilters) : chunk;
+      });
+      tee?.complete('complete');
+      return this.scrubAggregate(aggregated);
+    } catch (error) {
+      tee?.complete('error', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scrubs the PII and custom patterns from the text concatenated from a
+   * run's chunks. Chunks are redacted one by one, so a match split across
+   * `text-delta` chunks is only found in the whole text.
+   */
+  private scrubAggregate<T extends AggregatedStreamResult>(aggregated: T): T {
+    return this.redactor
+      ? { ...aggregated, text: this.redactor.scrub(aggregated.text) }
+      : aggregated;
+  }
+
+  /**
+   * Applies Mastra's `redact` (when enabled), then the configured redaction
+   * rules, to a stream chunk.
+   */
+  private redactChunk(chunk: unknown, context: RedactionContext): unknown {
+    const redacted =
+      (this.streamOptions?.redact ?? true)
+        ? redactStreamChunk(chunk as Parameters<typeof redactStreamChunk>[0])
+        : chunk;
+    return this.redactor ? this.redactor.redact(redacted, context) : redacted;
+  }
+
+  /**
+   * Creates the tee feeding a run's chunks to `onStreamChunk` and its
+   * summary to `onStreamComplete`, or undefined when neither hook is set.
+   * Hooks are not awaited, and their errors are logged.
+   */
+  private createStreamTee(
+    route: ServerRoute,
+    context: Context,
+    runId: string
+  ): StreamTee | undefined {
+    const { onStreamChunk, onStreamComplete } = this;
+    if (!onStreamChunk && !onStreamComplete) {
+      return undefined;
+    }
+
+    const hookContext: StreamHookContext = {
+      route,
+      request: context.request,
+      user: (context as unknown as Partial<MastraAuthContext>).user,
+      requestId: requestLogFields(context).requestId,
+      runId,
+    };
+    const runHook = (name: string, hook: () => void | Promise<void>) => {
+      try {
+        void Promise.resolve(hook()).catch((error) => this.log.error(`${name} hook failed`, error));
+      } catch (error) {
+        this.log.error(`${name} hook failed`, error);
+      }
+    };
+
+    const startedAt = performance.now();
+    const summary = emptyAggregate();
+    let chunkCount = 0;
+    let completed = false;
+
+    return {
+      chunk: (chunk) => {
+        if (completed) {
+          return;
+        }
+        chunkCount++;
+        aggregateChunk(summary, chunk);
+        if (onStreamChunk) {
+          runHook('onStreamChunk', () => onStreamChunk(chunk, hookContext));
         }
       },
-      cancel() {
-        reader.cancel();
+      complete: (outcome, error) => {
+        if (completed) {
+          return;
+        }
+        completed = true;
+        if (onStreamComplete) {
+          const result: StreamSummary = {
+            ...this.scrubAggregate(summary),
+            outcome,
+            chunkCount,
+            durationMs: elapsedMs(startedAt),
+            ...(error === undefined ? {} : { error }),
+          };
+          runHook('onStreamComplete', () => onStreamComplete(result, hookContext));
+        }
       },
-    });
+    };
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': isSSE ? 'text/event-stream' : 'text/plain',
-      'Transfer-Encoding': 'chunked',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
+  /**
+   * Builds the context passed to the `redaction.transform` hook.
+   */
+  private redactionContext(
+    route: ServerRoute,
+    context: Context,
+    source: RedactionContext['source']
+  ): RedactionContext {
+    return {
+      route,
+      user: (context as unknown as Partial<MastraAuthContext>).user,
+      request: context.request,
+      source,
     };
+  }
 
-    if (isSSE) {
-      headers['X-Accel-Buffering'] = 'no';
+  /**
+   * Resumes an SSE run from the replay store when the request carries a
+   * `Last-Event-ID` for a known run started from the same path.
+   *
+   * Retained events after the given id are sent first, then new events as
+   * the run produces them, then the completion marker. Returns undefined when
+   * the request should start a new run instead.
+   */
+  private async resumeStream(route: ServerRoute, context: Context): Promise<Response | undefined> {
+    const store = this.replayStore;
+    const isSseStream = (route.responseType as string) === 'stream' && route.streamFormat === 'sse';
+    const lastEventId = parseLastEventId(context.request.headers.get('last-event-id'));
+
+    if (!store || !isSseStream || !lastEventId) {
+      return undefined;
+    }
+
+    const { runId } = lastEventId;
+    const run = await store.read(runId, lastEventId.eventId);
+    if (
+      !run ||
+      run.path !== new URL(context.request.url).pathname ||
+      !this.isRunOwner(run, context)
+    ) {
+      return undefined;
     }
 
-    return new Response(outputStream, {
-      status: 200,
-      headers,
+    this.log.debug?.('Resuming stream', {
+      ...requestLogFields(context),
+      runId,
+      lastEventId: lastEventId.eventId,
     });
+
+    return this.replayRun(store, runId, lastEventId.eventId);
+  }
+
+  /**
+   * Streams a run's events from a replay or run store as SSE: the retained
+   * events after `afterId` first, then new events as the run produces them,
+   * then the completion marker, or the error event of a run that failed.
+   */
+  private replayRun(store: ReplayStore, runId: string, afterId: number): Response {
+    let unsubscribe = () => {};
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream({
+      async pull(controller) {
+        while (true) {
+          // Subscribe before reading so events appended in between are not missed
+          const changed = new Promise<void>((resolve) => {
+            unsubscribe = store.subscribe(runId, resolve);
+          });
+          const current = await store.read(runId, afterId);
+
+          if (current && current.events.length > 0) {
+            unsubscribe();
+            for (const event of current.events) {
+              controller.enqueue(encoder.encode(formatSseEvent(runId, event)));
+              if (event.terminal) {
+                controller.close();
+                return;
+              }
+            }
+            afterId = current.events[current.events.length - 1]?.id ?? afterId;
+            return;
+          }
+
+          if (!current || current.completed) {
+            unsubscribe();
+            controller.enqueue(encoder.encode(SSE_DONE_EVENT));
+            controller.close();
+            return;
+          }
+
+          await changed;
+          unsubscribe();
+        }
+      },
+      cancel() {
+        unsubscribe();
+      },
+    });
+
+    return new Response(body, { status: 200, headers: streamHeaders('text/event-stream') });
   }
 
   /**
-   * Returns the Elysia app instance.
+   * Returns the Elysia app instance, typed with the Mastra context.
    * Useful for adding custom routes or middleware after initialization.
    */
-  override getApp<T = AnyElysia>(): T {
+  override getApp<T = ElysiaWithMastra<TUser, TContext>>(): T {
     return this.app as T;
   }
 }
@@ -0,0 +1,175 @@
+import {
+  context as otelContext,
+  createTraceState,
+  isSpanContextValid,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Context as OtelContext,
+  type Span,
+  type SpanContext,
+  type Tracer,
+} from '@opentelemetry/api';
+import type { TraceContext } from './types';
+
+/**
+ * Key under which the trace context of the request span is stored in `requestContext`.
+ */
+export const TRACE_CONTEXT_KEY = 'traceContext';
+
+/**
+ * Name of the tracer used when no tracer is configured.
+ */
+export const TRACER_NAME = 'elysia-mastra-adapter';
+
+/**
+ * W3C trace context `traceparent` header: version-traceId-parentId-flags.
+ */
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Span for a Mastra route request, with the OpenTelemetry context that
+ * child spans are started in.
+ */
+export interface RequestTrace {
+  span: Span;
+  context: OtelContext;
+}
+
+/**
+ * Parses W3C trace context headers into a remote span context.
+ * Returns undefined for missing, malformed or invalid headers.
+ */
+export function parseTraceparent(
+  traceparent: string | null,
+  tracestate?: string | null
+): SpanContext | undefined {
+  const match = traceparent ? TRACEPARENT.exec(traceparent.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is invalid, and version 00 has no trailing fields
+  if (version === 'ff' || (version === '00' && rest)) {
+    return undefined;
+  }
+
+  const spanContext: SpanContext = {
+    traceId: traceId as string,
+    spanId: spanId as string,
+    traceFlags: parseInt(flags as string, 16),
+    isRemote: true,
+    traceState: tracestate ? createTraceState(tracestate) : undefined,
+  };
+
+  return isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+/**
+ * Formats a span context as a W3C `traceparent` header value.
+ */
+export function formatTraceparent(spanContext: SpanContext): string {
+  const flags = spanContext.traceFlags.toString(16).padStart(2, '0');
+  return `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`;
+}
+
+/**
+ * Starts the server span for a Mastra route request.
+ *
+ * The span continues the trace from the incoming `traceparent` header when
+ * `trustIncoming` is set and the header is valid, otherwise it is a child of
+ * the active context.
+ */
+export function startRequestSpan(
+  tracer: Tracer,
+  request: Request,
+  route: string,
+  trustIncoming: boolean
+): RequestTrace {
+  const incoming = trustIncoming
+    ? parseTraceparent(request.headers.get('traceparent'), request.headers.get('tracestate'))
+    : undefined;
+  const parent = incoming
+    ? trace.setSpanContext(otelContext.active(), incoming)
+    : otelContext.active();
+
+  const span = tracer.startSpan(
+    `${request.method} ${route}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'http.request.method': request.method,
+        'http.route': route,
+        'url.path': new URL(request.url).pathname,
+      },
+    },
+    parent
+  );
+
+  return { span, context: trace.setSpan(parent, span) };
+}
+
+/**
+ * Returns the trace context to hand to Mastra, or undefined when the span
+ * is not part of a valid trace (e.g. no SDK is registered and there was no
+ * incoming traceparent).
+ */
+export function toTraceContext(span: Span): TraceContext | undefined {
+  const spanContext = span.spanContext();
+  if (!isSpanContextValid(spanContext)) {
+    return undefined;
+  }
+
+  return {
+    traceId: spanContext.traceId,
+    parentSpanId: spanContext.spanId,
+    traceparent: formatTraceparent(spanContext),
+  };
+}
+
+/**
+ * Marks a span as failed with the given error.
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Runs `fn` inside a child span of `parent`. The span records any thrown
+ * error and always ends when `fn` settles.
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  parent: OtelContext,
+  fn: () => Promise<T> | T
+): Promise<T> {
+  const span = tracer.startSpan(name, undefined, parent);
+
+  try {
+    return await otelContext.with(trace.setSpan(parent, span), fn);
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Ends a request span with the response status. 5xx responses mark the span as failed.
+ */
+export function endRequestSpan(requestTrace: RequestTrace, status: number): void {
+  requestTrace.span.setAttribute('http.response.status_code', status);
+  if (status >= 500) {
+    requestTrace.span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+  requestTrace.span.end();
+}
@@ -0,0 +1,113 @@
+import type { TrustedContextSource } from './types';
+
+/**
+ * Reads a dot-separated path such as `org.id` from a value.
+ */
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Decodes base64url-encoded UTF-8 text. Returns undefined when the value is
+ * not valid base64url or UTF-8.
+ */
+export function decodeBase64url(value: string): string | undefined {
+  if (!/^[\w-]*={0,2}$/.test(value)) {
+    return undefined;
+  }
+
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder('utf-8', { fatal: true }).decode(
+      Uint8Array.from(binary, (c) => c.charCodeAt(0))
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decodes the claims of a JWT without verifying it. Only call this for
+ * tokens `authenticateToken` accepted. Returns undefined for anything that
+ * is not a JWT with a JSON object payload.
+ */
+export function decodeJwtClaims(token: string): Record<string, unknown> | undefined {
+  const payload = token.split('.')[1];
+  if (!payload || token.split('.').length !== 3) {
+    return undefined;
+  }
+
+  try {
+    const claims: unknown = JSON.parse(decodeBase64url(payload) ?? '');
+    return claims && typeof claims === 'object' && !Array.isArray(claims)
+      ? (claims as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the request context values a request's headers provide for the
+ * trusted keys sourced from headers. Absent headers provide no value.
+ */
+export function trustedHeaderValues<TUser>(
+  request: Request,
+  sources: Record<string, TrustedContextSource<TUser>>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, source] of Object.entries(sources)) {
+    if ('header' in source) {
+      const value = request.headers.get(source.header);
+      if (value !== null) {
+        values[key] = value;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Returns the request context values an authenticated user and the claims
+ * of their verified token provide for the trusted keys sourced from them.
+ * Undefined values are left out.
+ */
+export function trustedAuthValues<TUser>(
+  user: TUser,
+  claims: Record<string, unknown> | undefined,
+  sources: Record<string, TrustedContextSource<TUser>>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, source] of Object.entries(sources)) {
+    let value: unknown;
+    if ('user' in source) {
+      value = typeof source.user === 'function' ? source.user(user) : readPath(user, source.user);
+    } else if ('claim' in source) {
+      value = readPath(claims, source.claim);
+    }
+    if (value !== undefined) {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Removes the trusted keys from client-supplied request context values.
+ */
+export function withoutTrustedKeys(
+  values: Record<string, unknown> | undefined,
+  trustedKeys: ReadonlySet<string>
+): Record<string, unknown> | undefined {
+  if (!values || trustedKeys.size === 0) {
+    return values;
+  }
+  return Object.fromEntries(Object.entries(values).filter(([key]) => !trustedKeys.has(key)));
+}
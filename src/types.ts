@@ -1,13 +1,44 @@
-import type { Context, AnyElysia } from 'elysia';
+import type { Context, AnyElysia, Elysia } from 'elysia';
 import type { Mastra } from '@mastra/core/mastra';
 import type { ToolsInput } from '@mastra/core/agent';
 import type { RequestContext } from '@mastra/core/request-context';
 import type { InMemoryTaskStore } from '@mastra/server/a2a/store';
+import type { ServerRoute } from '@mastra/server/server-adapter';
+import type { Tracer } from '@opentelemetry/api';
 
 // ============================================================================
 // Logger Types
 // ============================================================================
 
+/**
+ * Log severity levels, in increasing order of severity.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log call.
+ * Request-scoped calls include the id of the request being handled; other
+ * well-known fields are set where they apply. Additional fields may be present.
+ */
+export interface LogFields {
+  /** Matched Mastra route pattern, including prefix (e.g. '/api/agents/:agentId') */
+  route?: string;
+  /** HTTP method */
+  method?: string;
+  /** Request URL path */
+  path?: string;
+  /** HTTP response status */
+  status?: number;
+  /** Elapsed time in milliseconds */
+  durationMs?: number;
+  /** Id of the request being handled (see `requestIdOptions`) */
+  requestId?: string;
+  /** Id of the authenticated user, when the user object has an `id` */
+  userId?: string;
+  /** Additional fields */
+  [key: string]: unknown;
+}
+
 /**
  * Logger interface for production debugging and monitoring.
  * Implement this interface to integrate with your logging infrastructure.
@@ -15,8 +46,8 @@ import type { InMemoryTaskStore } from '@mastra/server/a2a/store';
  * @example
  * ```typescript
  * const logger: MastraLogger = {
- *   error: (msg, err) => console.error(`[ERROR] ${msg}`, err),
- *   warn: (msg) => console.warn(`[WARN] ${msg}`),
+ *   error: (msg, err, fields) => console.error(`[ERROR] ${msg}`, err, fields),
+ *   warn: (msg, fields) => console.warn(`[WARN] ${msg}`, fields),
  *   info: (msg) => console.info(`[INFO] ${msg}`),
  *   debug: (msg) => console.debug(`[DEBUG] ${msg}`),
  * };
@@ -24,13 +55,55 @@ import type { InMemoryTaskStore } from '@mastra/server/a2a/store';
  */
 export interface MastraLogger {
   /** Log error messages with optional error object */
-  error: (message: string, error?: unknown) => void;
+  error: (message: string, error?: unknown, fields?: LogFields) => void;
   /** Log warning messages */
-  warn: (message: string) => void;
+  warn: (message: string, fields?: LogFields) => void;
   /** Log informational messages */
-  info: (message: string) => void;
+  info: (message: string, fields?: LogFields) => void;
   /** Log debug messages (typically disabled in production) */
-  debug?: (message: string) => void;
+  debug?: (message: string, fields?: LogFields) => void;
+}
+
+/**
+ * Logger with structured fields and scoped child loggers.
+ * Any MastraLogger can be upgraded with `toStructuredLogger()`; the adapter
+ * also ships `createConsoleJsonLogger()` and `createPinoLogger()`.
+ *
+ * @example
+ * ```typescript
+ * const requestLog = logger.child({ requestId, route: '/api/agents/:agentId' });
+ * requestLog.info('Agent run started', { agentId });
+ * ```
+ */
+export interface StructuredLogger extends MastraLogger {
+  /** Returns a logger that adds `bindings` to the fields of every call */
+  child: (bindings: LogFields) => StructuredLogger;
+}
+
+/**
+ * Minimal subset of the pino logger API used by `createPinoLogger()`.
+ */
+export interface PinoLikeLogger {
+  error: (obj: object, msg?: string) => void;
+  warn: (obj: object, msg?: string) => void;
+  info: (obj: object, msg?: string) => void;
+  debug: (obj: object, msg?: string) => void;
+  child: (bindings: object) => PinoLikeLogger;
+}
+
+/**
+ * Options for `createConsoleJsonLogger()`.
+ */
+export interface ConsoleJsonLoggerOptions {
+  /**
+   * Minimum level to write.
+   * @default 'info'
+   */
+  level?: LogLevel;
+  /** Fields attached to every line */
+  bindings?: LogFields;
+  /** Writes a serialized line. Defaults to the console method matching the level. */
+  write?: (line: string, level: LogLevel) => void;
 }
 
 // ============================================================================
@@ -42,8 +115,40 @@ export interface MastraLogger {
  * Used to prevent oversized payloads from consuming server resources.
  */
 export interface BodyLimitOptions {
-  /** Maximum size of the request body in bytes */
+  /**
+   * Maximum size of the request body in bytes.
+   * Enforced against the bytes actually read from the request stream, so
+   * chunked uploads and requests without a `content-length` header are covered.
+   */
   maxSize: number;
+  /**
+   * Optional per-route limits, overriding maxSize for matching requests.
+   * Values are either a byte limit or a {@link BodyLimitRule}.
+   *
+   * Keys are `METHOD:PATH` patterns. `GET:/health` matches that path exactly,
+   * `POST:/agents/:agentId/generate` matches any value in `:param` segments,
+   * `POST:/webhooks/*` matches the prefix and everything below it, and `ALL:`
+   * matches any method. The most specific key wins, and keys for the
+   * request's method win over `ALL:` keys. The other per-route maps use the
+   * same keys; only `customRouteAuthConfig` does not match `:param` segments.
+   *
+   * @example
+   * ```typescript
+   * routes: new Map([
+   *   ['POST:/api/agents/:agentId/generate', {
+   *     contentTypes: { 'multipart/form-data': 10 * 1024 * 1024 },
+   *   }],
+   *   ['POST:/api/webhooks/*', 1024 * 1024],
+   * ]),
+   * ```
+   */
+  routes?: Map<string, number | BodyLimitRule>;
+  /**
+   * Optional limits by request media type, applied when no route rule matches.
+   * Keys are media types without parameters (e.g. 'application/json',
+   * 'multipart/form-data') or a `type/*` wildcard (e.g. 'text/*').
+   */
+  contentTypes?: Record<string, number>;
   /**
    * Error handler called when body size limit is exceeded.
    * Return value will be sent as the response body.
@@ -51,6 +156,270 @@ export interface BodyLimitOptions {
   onError: (error: unknown) => unknown;
 }
 
+/**
+ * Body size limit for requests matching a `BodyLimitOptions.routes` entry.
+ */
+export interface BodyLimitRule {
+  /** Maximum size in bytes for this route. Falls back to the global limits when omitted. */
+  maxSize?: number;
+  /** Limits by request media type for this route, checked before maxSize */
+  contentTypes?: Record<string, number>;
+}
+
+// ============================================================================
+// Request ID Options
+// ============================================================================
+
+/**
+ * Options for request id generation and propagation.
+ * The id is stored in `requestContext`, echoed in the response headers and
+ * passed to every request-scoped logger call.
+ */
+export interface RequestIdOptions {
+  /**
+   * Header to read incoming ids from and echo ids in.
+   * @default 'X-Request-Id'
+   */
+  header?: string;
+  /**
+   * Generates ids for requests that do not carry one.
+   * @default crypto.randomUUID
+   */
+  generator?: () => string;
+  /**
+   * Accept ids sent by clients (e.g. from an upstream gateway). Malformed ids
+   * are always replaced. Set to false to always generate a new id.
+   * @default true
+   */
+  trustIncoming?: boolean;
+}
+
+// ============================================================================
+// Request Context Options
+// ============================================================================
+
+/**
+ * Zod object schema for the request context clients send in the
+ * `requestContext` query parameter and request body. Its output types
+ * `ctx.requestContext`.
+ *
+ * Typed by the methods the adapter uses, so that object schemas of zod 3.25
+ * and zod 4 both fit.
+ *
+ * @example
+ * ```typescript
+ * const requestContextSchema = z.object({
+ *   locale: z.string().default('en'),
+ *   maxSteps: z.coerce.number().int().max(10).optional(),
+ * });
+ * ```
+ */
+export interface RequestContextSchema<TContext = Record<string, unknown>> {
+  /** The schema of each declared key */
+  readonly shape: Record<string, unknown>;
+  /** The schema, rejecting undeclared keys */
+  strict(): RequestContextSchema<unknown>;
+  /** The schema, dropping undeclared keys */
+  strip(): RequestContextSchema<unknown>;
+  /** The schema, with every key optional */
+  partial(): RequestContextSchema<unknown>;
+  safeParse(
+    value: unknown
+  ): { success: true; data: TContext } | { success: false; error: { issues: unknown[] } };
+}
+
+/**
+ * What happens to request context keys the schema does not declare:
+ * - `strip`: they are dropped
+ * - `reject`: the request fails with a 400 validation problem
+ */
+export type RequestContextUnknownKeys = 'strip' | 'reject';
+
+/**
+ * A cookie carrying request context, signed like Elysia's signed cookies.
+ */
+export interface RequestContextCookieOptions {
+  /**
+   * Cookie name.
+   * @default 'mastra_request_context'
+   */
+  name?: string;
+  /**
+   * Secrets the cookie may be signed with. Pass several while rotating
+   * secrets; a cookie signed with any of them is accepted.
+   */
+  secrets: string | string[];
+}
+
+/**
+ * Where the context middleware reads client-supplied request context from,
+ * besides the body of Mastra routes. When several sources are present their
+ * values are merged: the header's, then the query parameter's, then the
+ * cookie's, each overriding the previous. The signed cookie comes last so
+ * that unsigned sources cannot override its keys.
+ *
+ * The header and cookie carry base64url-encoded JSON objects.
+ */
+export interface RequestContextSourceOptions {
+  /**
+   * Read the JSON `requestContext` query parameter.
+   * @default true
+   */
+  query?: boolean;
+  /**
+   * Read a header: `true` for `X-Mastra-Request-Context`, or the header name.
+   * Keeps the context out of URLs, which some CDNs truncate.
+   * @default false
+   */
+  header?: boolean | string;
+  /** Read a signed cookie */
+  cookie?: RequestContextCookieOptions;
+  /**
+   * Maximum size of each source's raw value, in bytes.
+   * @default 8192
+   */
+  maxSize?: number;
+  /**
+   * Reject malformed, oversized or badly signed sources with a 400 instead
+   * of logging a warning and ignoring them.
+   * @default false
+   */
+  strict?: boolean;
+}
+
+/**
+ * Where the server fills a trusted request context key from:
+ * - `header`: a request header, e.g. set by a gateway (`x-tenant-id`)
+ * - `user`: a field (dot path) of the authenticated user, or a function of it
+ * - `claim`: a claim (dot path) of the authenticated bearer JWT
+ *
+ * User and claim values are only set for authenticated requests.
+ */
+export type TrustedContextSource<TUser = unknown> =
+  | { header: string }
+  | { user: string | ((user: TUser) => unknown) }
+  | { claim: string };
+
+/**
+ * Values the adapter stores in the request context, and Mastra's reserved
+ * keys for middleware to set the memory resource and thread.
+ */
+export interface AdapterRequestContextValues {
+  requestId: string;
+  traceContext?: TraceContext;
+  mastra__resourceId?: string;
+  mastra__threadId?: string;
+}
+
+/**
+ * The request context handlers get: typed by the `requestContextSchema`
+ * output plus `AdapterRequestContextValues`, or untyped without a schema.
+ */
+export type MastraRequestContext<TContext = unknown> = unknown extends TContext
+  ? RequestContext
+  : RequestContext<TContext & AdapterRequestContextValues>;
+
+// ============================================================================
+// Access Log Options
+// ============================================================================
+
+/**
+ * Access log entry recorded for each handled Mastra route request.
+ * Streamed responses are recorded when the stream closes.
+ */
+export interface AccessLogEntry extends LogFields {
+  /** HTTP method */
+  method: string;
+  /** Matched Mastra route pattern, including prefix */
+  route: string;
+  /** Request URL path */
+  path: string;
+  /** HTTP response status */
+  status: number;
+  /** Mastra response type of the route (json, stream, ...) */
+  responseType: string;
+  /** Milliseconds from the start of route handling to the first body byte */
+  ttfbMs: number;
+  /** Milliseconds from the start of route handling until the body was fully sent */
+  durationMs: number;
+  /** Number of body bytes sent to the client */
+  bytesSent: number;
+  /** Whether the body was fully sent, cancelled by the client, or failed */
+  outcome: 'complete' | 'cancelled' | 'error';
+}
+
+/**
+ * Options for access logging of Mastra routes.
+ */
+export interface AccessLogOptions {
+  /**
+   * Level at which entries are written to the logger.
+   * @default 'info'
+   */
+  level?: LogLevel;
+  /** Called with every entry, e.g. to forward it to an analytics pipeline */
+  onEntry?: (entry: AccessLogEntry) => void;
+}
+
+// ============================================================================
+// Metrics Options
+// ============================================================================
+
+/**
+ * Options for the Prometheus/OpenMetrics metrics endpoint.
+ */
+export interface MetricsOptions {
+  /**
+   * Path of the metrics endpoint, relative to the server prefix.
+   * Like any other route it goes through auth; use `customRouteAuthConfig`
+   * to make it public.
+   * @default '/metrics'
+   */
+  path?: string;
+  /**
+   * Prefix for metric names.
+   * @default 'mastra_'
+   */
+  namePrefix?: string;
+  /** Request latency histogram buckets, in seconds */
+  buckets?: number[];
+}
+
+// ============================================================================
+// Telemetry Options
+// ============================================================================
+
+/**
+ * Options for OpenTelemetry tracing of Mastra routes.
+ */
+export interface TelemetryOptions {
+  /**
+   * Tracer to create spans with.
+   * Defaults to the `elysia-mastra-adapter` tracer of the global tracer provider.
+   */
+  tracer?: Tracer;
+  /**
+   * Continue traces from incoming `traceparent`/`tracestate` headers.
+   * Disable for public endpoints where clients should not control trace ids.
+   * @default true
+   */
+  trustIncoming?: boolean;
+}
+
+/**
+ * Trace context of the request span, stored in `requestContext` under
+ * `traceContext`. `traceId` and `parentSpanId` match Mastra's tracing options,
+ * so Mastra's AI tracing can attach its spans to the request trace.
+ */
+export interface TraceContext {
+  /** Trace id (32 hex characters) */
+  traceId: string;
+  /** Id of the request span (16 hex characters) */
+  parentSpanId: string;
+  /** W3C `traceparent` header value for outgoing calls */
+  traceparent: string;
+}
+
 // ============================================================================
 // Stream Options
 // ============================================================================
@@ -69,8 +438,575 @@ export interface StreamOptions {
    * @default true
    */
   redact?: boolean;
+
+  /**
+   * Keeps SSE events of each run in a replay store so clients that reconnect
+   * with `Last-Event-ID` resume where they left off instead of restarting the
+   * agent call. Pass `true` to use an in-memory store with default limits.
+   *
+   * While replay is enabled, a run keeps being recorded after its client
+   * disconnects, until the source stream ends.
+   */
+  replay?: boolean | ReplayOptions;
+
+  /**
+   * Lets `stream` route runs outlive their client: a detached run is not
+   * aborted when the client disconnects, its events are kept in a run store,
+   * and its id is returned in the `X-Mastra-Run-Id` header so clients can
+   * reattach through `GET /runs/:runId/stream`. Pass `true` to detach runs
+   * that ask for it with the `X-Mastra-Detach` header.
+   */
+  detach?: boolean | DetachOptions;
+
+  /**
+   * Identifies the authenticated user who starts a replayed or detached run.
+   * Only requests by the same user can resume the run with `Last-Event-ID`
+   * or reattach to it; runs started without a user are open to anyone
+   * holding their id.
+   *
+   * @default the user's `id` field
+   */
+  runOwner?: (user: unknown) => string | undefined;
+
+  /**
+   * Sends a keep-alive after this many milliseconds without output, so
+   * proxies and load balancers do not drop streams that are idle during
+   * long tool calls. SSE streams receive a `: ping` comment, which clients
+   * ignore, and other streams an empty record in their framing. Disabled
+   * when unset.
+   *
+   * @example 15_000
+   */
+  heartbeatMs?: number;
+
+  /**
+   * Record framing for non-SSE (`streamFormat: 'stream'`) responses.
+   * Defaults to `'legacy'` for backward compatibility.
+   *
+   * @default 'legacy'
+   */
+  framing?: StreamFraming;
+
+  /**
+   * Optional per-route framing, overriding `framing` for matching routes,
+   * keyed by route patterns as in {@link BodyLimitOptions.routes}.
+   *
+   * @example
+   * ```typescript
+   * routeFraming: new Map([['POST:/api/agents/:agentId/stream', 'ndjson']]),
+   * ```
+   */
+  routeFraming?: Map<string, StreamFraming>;
+
+  /**
+   * When true (default), clients choose the framing with the `Accept` header
+   * (`application/x-ndjson` or `application/json-seq`), taking precedence over
+   * `routeFraming` and `framing`.
+   *
+   * @default true
+   */
+  negotiateFraming?: boolean;
+
+  /**
+   * When true, `stream` routes honour the client's `Accept` header:
+   * `text/event-stream` gives SSE, `application/x-ndjson` or
+   * `application/json-seq` a record stream, and `application/json` consumes
+   * the whole stream and returns an {@link AggregatedStreamResult}.
+   * Requests without one of these types get the route's `streamFormat`.
+   *
+   * Off by default because many HTTP clients send `Accept: application/json`
+   * on every request and would stop receiving streams.
+   *
+   * @default false
+   */
+  negotiateFormat?: boolean;
+
+  /**
+   * Maximum bytes a stream may read ahead of a slow client. The stream ends
+   * with an `error` event once this much output is waiting to be sent.
+   * Without it, chunks are only read as fast as the client consumes them.
+   */
+  maxBufferedBytes?: number;
+
+  /**
+   * Maximum lifetime of a stream in milliseconds, after which it ends with
+   * an `error` event.
+   */
+  maxDurationMs?: number;
+
+  /**
+   * Ends a stream with an `error` event when no chunk has been sent for this
+   * many milliseconds, because the run is stuck or the client stopped
+   * reading. Heartbeats do not count as chunks.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Chunk types sent on every stream, e.g. to drop `reasoning` or
+   * `step-start` chunks clients have no use for.
+   */
+  chunkFilter?: ChunkFilter;
+
+  /**
+   * Optional per-route chunk filters, replacing `chunkFilter` for matching
+   * routes. Keys may use `:param` segments and `*` prefixes (see
+   * {@link BodyLimitOptions.routes}).
+   *
+   * @example
+   * ```typescript
+   * routeChunkFilters: new Map([['POST:/api/agents/:agentId/stream', { projection: 'text' }]]),
+   * ```
+   */
+  routeChunkFilters?: Map<string, ChunkFilter>;
+
+  /**
+   * Query parameter clients can narrow the chunks of a request with, on top
+   * of the configured filters. Takes comma-separated chunk types to include,
+   * types prefixed with `-` to exclude, or `text` for the text projection:
+   * `?chunks=text-delta,finish`, `?chunks=-reasoning`, `?chunks=text`.
+   * Set to false to ignore it.
+   *
+   * @default 'chunks'
+   */
+  chunkFilterParam?: string | false;
 }
 
+/**
+ * Selects the chunks a stream sends, by chunk `type`. Chunks must pass both
+ * lists. Mastra's `error` and `abort` chunks are always sent, unprojected,
+ * as are the adapter's completion markers and error events.
+ */
+export interface ChunkFilter {
+  /** Chunk types to send; all others are dropped */
+  include?: string[];
+  /** Chunk types to drop */
+  exclude?: string[];
+  /**
+   * `text` sends only `text-delta` chunks, reduced to `{ type, text }`.
+   * @default 'full'
+   */
+  projection?: 'full' | 'text';
+}
+
+/**
+ * Stream limit that ended a stream early (see `StreamOptions`).
+ */
+export type StreamLimitReason = 'max_buffered_bytes' | 'max_duration' | 'idle_timeout';
+
+/**
+ * Payload of the terminal event sent when a stream ends early: an SSE
+ * `event: error`, or an `{ "type": "error", "error": ... }` record in
+ * ndjson streams. The stream then closes normally, so clients can tell a
+ * failed run from a dropped connection.
+ *
+ * When a limit ends the stream, the upstream `fullStream` is cancelled and
+ * the route's `abortSignal` is aborted so the run stops. When the
+ * `fullStream` itself fails, the message is hidden under `redact` unless the
+ * error has a 4xx status.
+ */
+export interface StreamErrorEvent {
+  /**
+   * Stable error code: `stream_limit_exceeded`, the failing error's own
+   * `code`, or `stream_error`
+   */
+  code: string;
+  /** Human-readable description */
+  message: string;
+  /** The limit that was reached, for `stream_limit_exceeded` */
+  reason?: StreamLimitReason;
+  /** Request id, when the context middleware is registered */
+  requestId?: string;
+}
+
+/**
+ * JSON body returned for a `stream` route when the client asks for
+ * `application/json` (see `StreamOptions.negotiateFormat`).
+ */
+export interface AggregatedStreamResult {
+  /** Concatenated text of all `text-delta` chunks */
+  text: string;
+  /** Tool calls made during the run */
+  toolCalls: Array<{ toolCallId: string; toolName: string; args?: unknown }>;
+  /** Results of the tool calls */
+  toolResults: Array<{ toolCallId: string; toolName: string; result: unknown; isError?: boolean }>;
+  /** Token usage reported by the final `finish` chunk */
+  usage?: unknown;
+  /** Finish reason reported by the final `finish` chunk */
+  finishReason?: string;
+}
+
+/**
+ * Passed to the `onStreamChunk` and `onStreamComplete` hooks.
+ */
+export interface StreamHookContext {
+  /** The Mastra route being streamed */
+  route: ServerRoute;
+  /** The incoming request */
+  request: Request;
+  /** The authenticated user, or null/undefined when unauthenticated */
+  user: unknown;
+  /** Request id, when the context middleware is registered */
+  requestId?: string;
+  /** Id of the run, also used in SSE event ids */
+  runId: string;
+}
+
+/**
+ * Summary of a streamed run, passed to `onStreamComplete`.
+ */
+export interface StreamSummary extends AggregatedStreamResult {
+  /**
+   * Whether the run's stream completed, was cancelled by the client, or
+   * failed (including stream limits)
+   */
+  outcome: 'complete' | 'cancelled' | 'error';
+  /** Number of chunks read from the run's `fullStream` */
+  chunkCount: number;
+  /** Milliseconds from the start of the stream until it ended */
+  durationMs: number;
+  /** The error that ended the stream, for the `error` outcome */
+  error?: unknown;
+}
+
+/**
+ * Record framing for non-SSE streams:
+ * - `'ndjson'`: `application/x-ndjson`, one JSON record per line
+ * - `'json-seq'`: `application/json-seq` (RFC 7464), each record prefixed
+ *   with a record separator (0x1E) and terminated by a line feed
+ * - `'legacy'`: `text/plain`, each record followed by a record separator
+ *   (0x1E), as sent by earlier versions of the adapter
+ */
+export type StreamFraming = 'ndjson' | 'json-seq' | 'legacy';
+
+/**
+ * Options for SSE replay.
+ */
+export interface ReplayOptions {
+  /**
+   * Store for replayable events.
+   * @default createMemoryReplayStore()
+   */
+  store?: ReplayStore;
+}
+
+/**
+ * Options for detached runs.
+ */
+export interface DetachOptions {
+  /**
+   * Optional per-route defaults, keyed like {@link BodyLimitOptions.routes}.
+   * Set a value to `true` to detach every run of the route unless the
+   * request opts out, or `false` to never detach its runs, whatever the
+   * request asks.
+   *
+   * @example
+   * ```typescript
+   * routes: new Map([['POST:/api/workflows/research/stream', true]]),
+   * ```
+   */
+  routes?: Map<string, boolean>;
+  /**
+   * Request header choosing detachment per request: `true`/`1` detaches the
+   * run, `false`/`0` keeps it attached. Set to false to only use `routes`.
+   * @default 'X-Mastra-Detach'
+   */
+  header?: string | false;
+  /**
+   * Store keeping the events of detached runs.
+   * @default the replay store when `replay` is enabled, else createMemoryReplayStore()
+   */
+  store?: ReplayStore;
+  /**
+   * Path of the reattach route, under the server prefix.
+   * @default '/runs/:runId/stream'
+   */
+  path?: string;
+  /**
+   * Maximum detached runs in progress at once. Requests that would detach
+   * another run get a 429.
+   * @default 100
+   */
+  maxRuns?: number;
+}
+
+/**
+ * An SSE event kept for replay. `id` increases monotonically within a run.
+ */
+export interface ReplayEvent {
+  /** Event id within the run, starting at 1 */
+  id: number;
+  /** SSE event name, taken from the chunk `type` */
+  event?: string;
+  /** Serialized event data */
+  data: string;
+  /**
+   * Set on the error event that ended a run early (a failed source or a
+   * stream limit). Replays end with it instead of the completion marker.
+   */
+  terminal?: boolean;
+}
+
+/**
+ * A run read back from a replay store.
+ */
+export interface ReplayRun {
+  /** Request path that started the run; resumption must use the same path */
+  path: string;
+  /** Retained events after the requested id, in order */
+  events: ReplayEvent[];
+  /** Whether the source stream has ended */
+  completed: boolean;
+  /** Id of the user who started the run (see `StreamOptions.runOwner`) */
+  owner?: string;
+}
+
+/**
+ * Pluggable storage for SSE replay. Implementations must keep memory bounded
+ * (per-run event limits and run expiry) and may be shared between instances.
+ */
+export interface ReplayStore {
+  /** Registers a new run started by a request to `path`, by the user `owner` if any */
+  create(runId: string, path: string, owner?: string): void | Promise<void>;
+  /** Appends an event to a run */
+  append(runId: string, event: ReplayEvent): void | Promise<void>;
+  /** Marks a run as ended */
+  complete(runId: string): void | Promise<void>;
+  /** Returns a run with its retained events after `afterId`, or undefined if unknown or expired */
+  read(runId: string, afterId: number): ReplayRun | undefined | Promise<ReplayRun | undefined>;
+  /**
+   * Calls `listener` when a run gets new events, completes or is evicted.
+   * Returns a function that removes the listener.
+   */
+  subscribe(runId: string, listener: () => void): () => void;
+}
+
+/**
+ * Limits for the in-memory replay store.
+ */
+export interface MemoryReplayStoreOptions {
+  /**
+   * Events kept per run; older events are dropped.
+   * @default 1000
+   */
+  maxEvents?: number;
+  /**
+   * Runs kept at once; the oldest runs are evicted.
+   * @default 1000
+   */
+  maxRuns?: number;
+  /**
+   * Milliseconds a run is kept after its last event.
+   * @default 300000 (5 minutes)
+   */
+  ttlMs?: number;
+}
+
+// ============================================================================
+// Compression Options
+// ============================================================================
+
+/**
+ * Content codings the adapter can compress responses with.
+ */
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+/**
+ * Options for compressing Mastra route responses.
+ */
+export interface CompressionOptions {
+  /**
+   * Minimum size in bytes of a JSON body or a Response before it is
+   * compressed; Responses without a length are read up to this size to
+   * tell. Streams are always compressed, and flushed after every chunk so
+   * events still arrive in real time.
+   * @default 1024
+   */
+  threshold?: number;
+  /**
+   * Codings to offer, in order of preference when the client accepts several
+   * with the same quality. Brotli is compressed at quality 5.
+   * @default ['gzip', 'br', 'deflate']
+   */
+  encodings?: CompressionEncoding[];
+  /**
+   * Optional per-route switches; set a value to `false` to never compress
+   * the route. Route patterns, `:param` segments included, work as in
+   * {@link BodyLimitOptions.routes}.
+   *
+   * @example
+   * ```typescript
+   * routes: new Map([['GET:/api/agents/:agentId/voice/*', false]]),
+   * ```
+   */
+  routes?: Map<string, boolean>;
+}
+
+// ============================================================================
+// Redaction Options
+// ============================================================================
+
+/**
+ * Built-in PII patterns, see `PII_PATTERNS`.
+ */
+export type PiiPattern = 'email' | 'phone' | 'apiKey';
+
+/**
+ * Passed to the `transform` redaction hook with each value being redacted.
+ */
+export interface RedactionContext {
+  /** The Mastra route that produced the value */
+  route: ServerRoute;
+  /** The authenticated user, or null/undefined when unauthenticated */
+  user: unknown;
+  /** The incoming request */
+  request: Request;
+  /** Whether the value is a stream chunk or a JSON response body */
+  source: 'stream' | 'json';
+}
+
+/**
+ * Redaction rules applied to stream chunks (after Mastra's `redact`) and to
+ * JSON responses of Mastra routes, before they reach the client.
+ *
+ * Rules run in order: `paths`, then `pii` and `patterns`, then `transform`.
+ */
+export interface RedactionOptions {
+  /**
+   * JSON paths whose values are replaced with the mask. Supports `$.a.b`
+   * (or `a.b`), `*` and `[*]` wildcards, `[0]` indexes and `..key` to match
+   * a key at any depth.
+   *
+   * @example ['$.payload.result.email', '$..apiKey', 'payload.args.cards[*].number']
+   */
+  paths?: string[];
+  /**
+   * Built-in patterns scrubbed from every string value. Pass `true` for
+   * emails, phone numbers and API keys.
+   */
+  pii?: boolean | PiiPattern[];
+  /** Additional patterns scrubbed from every string value */
+  patterns?: RegExp[];
+  /**
+   * Replacement for masked values and scrubbed matches.
+   * @default '[REDACTED]'
+   */
+  mask?: string;
+  /**
+   * Custom hook run last, receiving each stream chunk or JSON response body
+   * with the user and route. Returns the value to send.
+   */
+  transform?: (value: unknown, context: RedactionContext) => unknown;
+}
+
+// ============================================================================
+// WebSocket Options
+// ============================================================================
+
+/**
+ * Options for the WebSocket endpoint multiplexing Mastra `stream` routes.
+ */
+export interface WebSocketOptions {
+  /**
+   * Path of the WebSocket endpoint, under the server prefix.
+   * @default '/ws'
+   */
+  path?: string;
+  /**
+   * Query parameter carrying the bearer token on the upgrade request, for
+   * browsers, which cannot set an `Authorization` header on WebSockets.
+   * Set to false to only accept the header.
+   * @default 'token'
+   */
+  tokenParam?: string | false;
+  /**
+   * Maximum number of concurrent subscriptions per socket. Further
+   * subscriptions get an error message.
+   * @default 16
+   */
+  maxSubscriptions?: number;
+}
+
+/**
+ * Messages sent by WebSocket clients.
+ *
+ * - `subscribe`: starts a run of the Mastra `stream` route at `path` (with
+ *   the server prefix, and optionally a query string such as `?chunks=text`),
+ *   with `body` as the request body. `method` defaults to `POST`.
+ * - `cancel`: stops the subscription's run and aborts its `abortSignal`.
+ *
+ * `id` is chosen by the client and tags every message about the subscription.
+ */
+export type WebSocketClientMessage =
+  | { type: 'subscribe'; id: string; path: string; method?: string; body?: unknown }
+  | { type: 'cancel'; id: string };
+
+/**
+ * Messages sent by the WebSocket endpoint.
+ *
+ * - `chunk`: a stream chunk, after redaction and chunk filters
+ * - `done`: the run ended or was cancelled; no more messages follow for `id`
+ * - `error`: the run failed, or a message was rejected. Errors about a
+ *   subscription end it; errors without an `id` concern an unreadable message.
+ */
+export type WebSocketServerMessage =
+  | { type: 'chunk'; id: string; chunk: unknown }
+  | { type: 'done'; id: string }
+  | { type: 'error'; id?: string; error: StreamErrorEvent };
+
+// ============================================================================
+// Error Handling Types
+// ============================================================================
+
+/**
+ * RFC 9457 problem details body returned by the default error mapper.
+ * Extension members (such as `requestId` and `errors`) sit alongside the
+ * standard fields.
+ */
+export interface ProblemDetails {
+  /** URI identifying the problem type */
+  type: string;
+  /** Short, human-readable summary of the problem type */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Human-readable explanation specific to this occurrence */
+  detail?: string;
+  /** URI reference identifying this occurrence (the request path) */
+  instance?: string;
+  /** Id correlating the error with server logs */
+  requestId?: string;
+  /** Validation issues, for validation problems */
+  errors?: unknown[];
+  /** Additional extension members */
+  [key: string]: unknown;
+}
+
+/**
+ * Response produced by an {@link ErrorMapper}.
+ */
+export interface ErrorMapperResult {
+  /** HTTP status code to respond with */
+  status: number;
+  /** Response body, serialized as JSON */
+  body: unknown;
+  /** Optional response headers (defaults to `Content-Type: application/json`) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Maps an error thrown while handling a Mastra route to an HTTP response.
+ * Return undefined to fall back to the default problem details response.
+ *
+ * @param error - The raw error thrown by parameter validation or the route handler
+ * @param route - The Mastra route that was being handled
+ * @param context - The Elysia request context
+ */
+export type ErrorMapper = (
+  error: unknown,
+  route: ServerRoute,
+  context: Context
+) => ErrorMapperResult | undefined | Promise<ErrorMapperResult | undefined>;
+
 // ============================================================================
 // Derived Context Types
 // ============================================================================
@@ -81,30 +1017,35 @@ export interface StreamOptions {
  *
  * The index signature is required for compatibility with Elysia's derive function.
  */
-export interface MastraDeriveContext {
+export interface MastraDeriveContext<TContext = unknown> {
   /** The Mastra instance for accessing agents, workflows, and tools */
   mastra: Mastra;
   /** Request-scoped context for passing data through the request lifecycle */
-  requestContext: RequestContext;
+  requestContext: MastraRequestContext<TContext>;
   /** Tools available to route handlers */
   tools: ToolsInput;
   /** Signal for request cancellation - fires when client disconnects */
   abortSignal: AbortSignal;
   /** Task store for A2A (Agent-to-Agent) communication */
   taskStore?: InMemoryTaskStore;
+  /** Id correlating this request across responses, streams and logs */
+  requestId: string;
   /** Index signature for Elysia derive compatibility */
   [key: string]: unknown;
 }
 
 /**
  * Authentication context added by ElysiaServer's auth middleware.
- * Only present when authentication is configured in Mastra.
+ * Only present when authentication is configured in Mastra or in the
+ * server's `auth` option.
+ *
+ * `TUser` is the type `authenticateToken` resolves to.
  *
  * The index signature is required for compatibility with Elysia's derive function.
  */
-export interface MastraAuthContext {
-  /** Authenticated user object (shape depends on your auth implementation) */
-  user: unknown;
+export interface MastraAuthContext<TUser = unknown> {
+  /** Authenticated user, or null when unauthenticated or the route is public */
+  user: TUser | null;
   /** Authentication error state - null if authenticated successfully */
   authError: 'unauthorized' | null;
   /** Index signature for Elysia derive compatibility */
@@ -115,7 +1056,8 @@ export interface MastraAuthContext {
  * Complete derived context after all Mastra middleware has run.
  * Combines core context with optional auth context.
  */
-export type MastraFullContext = MastraDeriveContext & Partial<MastraAuthContext>;
+export type MastraFullContext<TUser = unknown, TContext = unknown> = MastraDeriveContext<TContext> &
+  Partial<MastraAuthContext<TUser>>;
 
 // ============================================================================
 // Elysia Type Helpers
@@ -127,35 +1069,86 @@ export type MastraFullContext = MastraDeriveContext & Partial<MastraAuthContext>
  *
  * @example
  * ```typescript
- * app.get('/my-route', (ctx: ElysiaContext) => {
- *   // All Mastra context is properly typed
- *   const { mastra, tools, requestContext, abortSignal } = ctx;
+ * app.get('/my-route', (ctx: ElysiaContext<User>) => {
+ *   // All Mastra context is properly typed, including the user
+ *   const { mastra, tools, requestContext, abortSignal, user } = ctx;
  *   const agent = mastra.getAgent('myAgent');
- *   return { status: 'ok' };
+ *   return { status: 'ok', userId: user?.id };
  * });
  * ```
  */
-export type ElysiaContext = Context & MastraFullContext;
+export type ElysiaContext<TUser = unknown, TContext = unknown> = Context &
+  MastraFullContext<TUser, TContext>;
 
 /**
  * Type-safe Elysia app with Mastra context attached.
  * Use this when you need to type an Elysia instance that has the adapter's
- * context middleware applied.
+ * context middleware applied, such as the app `mastra()` and `mastraServer()`
+ * return or the app passed to a plugin function.
  *
  * @example
  * ```typescript
- * import { ElysiaWithMastra } from 'elysia-mastra';
+ * import type { ElysiaWithMastra } from 'elysia-mastra';
  *
- * function myPlugin(app: ElysiaWithMastra) {
- *   return app.get('/custom', ({ mastra, requestContext, tools }) => {
- *     // mastra, requestContext, and tools are all properly typed!
- *     const agents = Object.keys(mastra.getAgents?.() ?? {});
- *     return { agents };
+ * function myPlugin(app: ElysiaWithMastra<User>) {
+ *   return app.get('/custom', ({ mastra, requestContext, tools, user }) => {
+ *     // mastra, requestContext, tools and user are all properly typed!
+ *     const agents = Object.keys(mastra.listAgents());
+ *     return { agents, userId: user?.id };
  *   });
  * }
  * ```
  */
-export type ElysiaWithMastra = AnyElysia;
+export type ElysiaWithMastra<TUser = unknown, TContext = unknown> = Elysia<
+  '',
+  {
+    decorator: Record<string, never>;
+    store: Record<string, never>;
+    derive: MastraFullContext<TUser, TContext>;
+    resolve: Record<string, never>;
+  }
+>;
+
+// ============================================================================
+// Auth Configuration
+// ============================================================================
+
+/**
+ * Authentication and authorization functions for the server's `auth` option.
+ * Takes precedence over the auth config of Mastra's server config, and
+ * carries the user type into `ctx.user` and `authorize`.
+ * Mastra auth providers can be passed as is.
+ *
+ * @example
+ * ```typescript
+ * const server = new ElysiaServer({
+ *   app,
+ *   mastra,
+ *   auth: {
+ *     authenticateToken: async (token) => verifyJwt(token), // Promise<User | null>
+ *     authorize: (path, method, user) => user?.role === 'admin' || method === 'GET',
+ *   },
+ * });
+ * // server.getApp() is an ElysiaWithMastra<User>
+ * ```
+ */
+export interface ElysiaAuthConfig<TUser = unknown> {
+  /** Resolves a bearer token to its user, or null when it is invalid */
+  authenticateToken?: (token: string, request: Request) => Promise<TUser | null> | TUser | null;
+  /**
+   * Whether the authenticated user may call a route; takes precedence over
+   * `authorizeUser`. The user is null on routes whose auth is turned off in
+   * `customRouteAuthConfig`.
+   */
+  authorize?: (
+    path: string,
+    method: string,
+    user: TUser | null,
+    context: ElysiaContext<TUser>
+  ) => Promise<boolean> | boolean;
+  /** Whether the authenticated user may make a request; the user is null as for `authorize` */
+  authorizeUser?: (user: TUser | null, request: Request) => Promise<boolean> | boolean;
+}
 
 // ============================================================================
 // Server Configuration
@@ -164,11 +1157,16 @@ export type ElysiaWithMastra = AnyElysia;
 /**
  * Configuration options for the ElysiaServer constructor.
  */
-export interface ElysiaServerOptions {
+export interface ElysiaServerOptions<TUser = unknown, TContext = unknown> {
   /** The Elysia app instance to attach routes to (accepts any Elysia variant) */
   app: AnyElysia;
   /** The Mastra instance providing agents, workflows, and tools */
   mastra: Mastra;
+  /**
+   * Optional auth functions, used instead of the auth config of Mastra's
+   * server config. Their user type is inferred as the server's `TUser`.
+   */
+  auth?: ElysiaAuthConfig<TUser>;
   /** Optional prefix for all registered routes (e.g., '/api') */
   prefix?: string;
   /** Optional path for the OpenAPI specification endpoint */
@@ -181,7 +1179,9 @@ export interface ElysiaServerOptions {
    * Optional per-route authentication overrides.
    * Keys follow format `METHOD:PATH` (e.g., 'GET:/health', 'POST:/webhooks/*').
    * Set value to `false` to make a route public, `true` to require auth.
-   * Supports wildcards (*) for path matching.
+   * Supports wildcards (*) for path matching. Unlike the other per-route
+   * maps, `:param` segments only match literally, so a key cannot make every
+   * agent route public by mistake.
    *
    * @example
    * ```typescript
@@ -205,6 +1205,97 @@ export interface ElysiaServerOptions {
    * If not provided, errors are logged to console.error.
    */
   logger?: MastraLogger;
+  /** Optional request id header and generator configuration */
+  requestIdOptions?: RequestIdOptions;
+  /**
+   * Optional schema validating and coercing the request context clients
+   * send, merged from the `requestContext` query parameter and the body of
+   * Mastra routes. Invalid contexts get a 400 validation problem.
+   */
+  requestContextSchema?: RequestContextSchema<TContext>;
+  /**
+   * What happens to request context keys the schema does not declare.
+   * @default 'strip'
+   */
+  requestContextUnknownKeys?: RequestContextUnknownKeys;
+  /**
+   * Optional sources of client-supplied request context besides the query
+   * parameter (a header and a signed cookie), with size limits and a strict
+   * mode.
+   */
+  requestContextSources?: RequestContextSourceOptions;
+  /**
+   * Optional request context keys the server fills from trusted sources:
+   * request headers, the authenticated user and their JWT claims. Clients
+   * can never set these keys, in the query parameter or the body, even when
+   * the source has no value.
+   *
+   * @example
+   * ```typescript
+   * new ElysiaServer({
+   *   // ...
+   *   trustedRequestContext: {
+   *     tenantId: { header: 'x-tenant-id' },
+   *     locale: { header: 'accept-language' },
+   *     userId: { user: 'id' },
+   *     orgId: { claim: 'org.id' },
+   *   },
+   * });
+   * ```
+   */
+  trustedRequestContext?: Record<string, TrustedContextSource<TUser>>;
+  /**
+   * Optional access logging for Mastra routes. Pass `true` to log entries at
+   * info level through the configured logger.
+   */
+  accessLog?: boolean | AccessLogOptions;
+  /**
+   * Optional metrics endpoint exposing request, stream, auth and body limit
+   * metrics. Pass `true` to serve them at `/metrics`.
+   */
+  metrics?: boolean | MetricsOptions;
+  /**
+   * Optional OpenTelemetry spans for Mastra routes: request, parameter
+   * extraction, validation, auth, handler and stream lifetime. Pass `true` to
+   * use the global tracer provider.
+   */
+  telemetry?: boolean | TelemetryOptions;
+  /**
+   * Optional response compression for Mastra routes, negotiated with
+   * `Accept-Encoding`. Pass `true` for the default threshold and codings.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * Optional redaction rules for stream chunks and JSON responses, e.g. to
+   * mask customer PII in tool results. Applied in addition to
+   * `streamOptions.redact`.
+   */
+  redaction?: RedactionOptions;
+  /**
+   * Optional hook receiving every chunk of Mastra `stream` routes, after
+   * redaction and before chunk filters, e.g. to write audit transcripts.
+   * Runs alongside the client's stream: it is not awaited, and errors are
+   * logged without affecting the response.
+   */
+  onStreamChunk?: (chunk: unknown, context: StreamHookContext) => void | Promise<void>;
+  /**
+   * Optional hook receiving the summary of each streamed run (text, tool
+   * calls, usage, outcome) once it ends, e.g. to record billing usage.
+   * Not awaited; errors are logged.
+   */
+  onStreamComplete?: (summary: StreamSummary, context: StreamHookContext) => void | Promise<void>;
+  /**
+   * Optional WebSocket endpoint multiplexing Mastra `stream` routes (agent
+   * streams, workflow streams and observers) over one socket. Pass `true`
+   * to serve it at `/ws`.
+   */
+  websocket?: boolean | WebSocketOptions;
+  /**
+   * Optional mapper for errors thrown while handling Mastra routes.
+   * Defaults to RFC 9457 `application/problem+json` responses
+   * (see `defaultErrorMapper`).
+   */
+  errorMapper?: ErrorMapper;
 }
 
 // ============================================================================
@@ -255,15 +1346,46 @@ export interface StreamResult {
 /**
  * Options for the mastra() plugin helper.
  */
-export interface MastraPluginOptions {
+export interface MastraPluginOptions<TContext = unknown> {
   /** The Mastra instance */
   mastra: Mastra;
   /** Optional tools to make available */
   tools?: ToolsInput;
   /** Optional task store for A2A */
   taskStore?: InMemoryTaskStore;
+  /** Optional request id header and generator configuration */
+  requestIdOptions?: RequestIdOptions;
+  /**
+   * Optional schema validating and coercing the `requestContext` query
+   * parameter. Invalid contexts get a 400 validation problem.
+   */
+  requestContextSchema?: RequestContextSchema<TContext>;
+  /**
+   * What happens to request context keys the schema does not declare.
+   * @default 'strip'
+   */
+  requestContextUnknownKeys?: RequestContextUnknownKeys;
+  /**
+   * Optional sources of request context besides the query parameter (a
+   * header and a signed cookie), with size limits and a strict mode.
+   */
+  requestContextSources?: RequestContextSourceOptions;
+  /**
+   * Optional logger, e.g. for invalid `requestContext` query parameters.
+   * If not provided, errors are logged to console.error.
+   */
+  logger?: MastraLogger;
 }
 
+/**
+ * Options for the mastraServer() plugin: the `ElysiaServer` options, without
+ * the app, which the plugin creates.
+ */
+export type MastraServerPluginOptions<TUser = unknown, TContext = unknown> = Omit<
+  ElysiaServerOptions<TUser, TContext>,
+  'app'
+>;
+
 export type { Mastra } from '@mastra/core/mastra';
 export type { ToolsInput } from '@mastra/core/agent';
 export type { RequestContext } from '@mastra/core/request-context';
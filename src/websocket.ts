@@ -0,0 +1,95 @@
+import type { WebSocketClientMessage } from './types';
+
+/**
+ * Default path of the WebSocket endpoint, under the server prefix.
+ */
+export const DEFAULT_WEBSOCKET_PATH = '/ws';
+
+/**
+ * Default query parameter carrying the bearer token on upgrade requests.
+ */
+export const DEFAULT_TOKEN_PARAM = 'token';
+
+/**
+ * Default maximum number of concurrent subscriptions per socket.
+ */
+export const DEFAULT_MAX_SUBSCRIPTIONS = 16;
+
+/**
+ * Whether a request asks to upgrade to a WebSocket.
+ */
+export function isWebSocketUpgrade(request: Request): boolean {
+  return request.headers.get('upgrade')?.toLowerCase() === 'websocket';
+}
+
+/**
+ * Reads a client message. Elysia parses JSON text frames already; raw text
+ * frames are parsed here. Returns undefined for anything that is not a
+ * well-formed `subscribe` or `cancel` message.
+ */
+export function parseClientMessage(message: unknown): WebSocketClientMessage | undefined {
+  let value = message;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { type, id, path, method } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || id === '') {
+    return undefined;
+  }
+
+  if (type === 'cancel') {
+    return { type, id };
+  }
+
+  if (
+    type === 'subscribe' &&
+    typeof path === 'string' &&
+    path.startsWith('/') &&
+    (method === undefined || typeof method === 'string')
+  ) {
+    return { type, id, path, method, body: (value as { body?: unknown }).body };
+  }
+
+  return undefined;
+}
+
+/**
+ * Matches a route path such as `/api/agents/:agentId/stream` against a
+ * request pathname, returning the decoded `:param` values, or undefined when
+ * the path does not match.
+ */
+export function matchPathParams(
+  pattern: string,
+  pathname: string
+): Record<string, string> | undefined {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i] as string;
+    const value = pathParts[i] as string;
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(value);
+      } catch {
+        return undefined;
+      }
+    } else if (part !== value) {
+      return undefined;
+    }
+  }
+  return params;
+}